@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import jsonCodec from './json-codec';
+
+describe('jsonCodec', () => {
+  const roundTrip = (value: unknown) => jsonCodec.decode(jsonCodec.encode(value));
+
+  it('should round trip plain JSON values', () => {
+    const value = { string: 'a', number: 1, boolean: true, null: null, array: [1, { a: 'b' }] };
+
+    expect(roundTrip(value)).toStrictEqual(value);
+    expect(jsonCodec.encode(value)).toBe(JSON.stringify(value));
+  });
+
+  it('should decode plain JSON written without the codec', () => {
+    expect(jsonCodec.decode('{"a":[1,2]}')).toStrictEqual({ a: [1, 2] });
+  });
+
+  it('should round trip dates', () => {
+    const value = { date: new Date(Date.UTC(1995, 1, 1)) };
+
+    expect(jsonCodec.encode(value)).toBe(
+      '{"date":{"$mstps":"Date","value":"1995-02-01T00:00:00.000Z"}}'
+    );
+    expect(roundTrip(value)).toStrictEqual(value);
+  });
+
+  it('should round trip maps and sets', () => {
+    const value = {
+      map: new Map<unknown, unknown>([
+        ['a', 1],
+        [2, new Set(['b'])],
+      ]),
+      set: new Set([1, 2, 3]),
+    };
+
+    expect(roundTrip(value)).toStrictEqual(value);
+  });
+
+  it('should round trip bigints', () => {
+    const value = { big: BigInt('9007199254740993') };
+
+    expect(roundTrip(value)).toStrictEqual(value);
+  });
+
+  it('should round trip nested tagged values', () => {
+    const value = [{ frozen: { createdAt: new Date(0), tags: new Set(['a']) } }];
+
+    expect(roundTrip(value)).toStrictEqual(value);
+  });
+
+  it('should produce identical output for identical values', () => {
+    const create = () => ({ a: new Date(0), b: new Map([['c', BigInt(1)]]) });
+
+    expect(jsonCodec.encode(create())).toBe(jsonCodec.encode(create()));
+  });
+});
@@ -0,0 +1,63 @@
+import isObjectLike from '../utils/is-object-like';
+import { Codec } from './types';
+
+/**
+ * The key marking tagged values in the serialized JSON. Objects must not use it as a key.
+ */
+export const TAG_KEY = '$mstps';
+
+interface TaggedValue {
+  [TAG_KEY]: 'Date' | 'Map' | 'Set' | 'BigInt';
+  value: unknown;
+}
+
+const isTaggedValue = (value: unknown): value is TaggedValue =>
+  isObjectLike(value) && typeof value[TAG_KEY] === 'string' && 'value' in value;
+
+function replacer(this: Record<string, unknown>, key: string, value: unknown) {
+  // `Date` is already converted to a string by its `toJSON` at this point.
+  const raw = this[key];
+
+  if (raw instanceof Date) {
+    return { [TAG_KEY]: 'Date', value: raw.toISOString() };
+  }
+  if (raw instanceof Map) {
+    return { [TAG_KEY]: 'Map', value: Array.from(raw.entries()) };
+  }
+  if (raw instanceof Set) {
+    return { [TAG_KEY]: 'Set', value: Array.from(raw.values()) };
+  }
+  if (typeof raw === 'bigint') {
+    return { [TAG_KEY]: 'BigInt', value: raw.toString() };
+  }
+  return value;
+}
+
+const reviver = (_key: string, value: unknown) => {
+  if (!isTaggedValue(value)) {
+    return value;
+  }
+  switch (value[TAG_KEY]) {
+    case 'Date':
+      return new Date(value.value as string);
+    case 'Map':
+      return new Map(value.value as [unknown, unknown][]);
+    case 'Set':
+      return new Set(value.value as unknown[]);
+    case 'BigInt':
+      return BigInt(value.value as string);
+    default:
+      return value;
+  }
+};
+
+/**
+ * The default codec. JSON, with `Date`, `Map`, `Set` and `BigInt` values tagged so
+ * they are revived as such.
+ */
+const jsonCodec: Codec = {
+  encode: (value) => JSON.stringify(value, replacer),
+  decode: (text) => JSON.parse(text, reviver),
+};
+
+export default jsonCodec;
@@ -0,0 +1,8 @@
+/**
+ * Serializes values to strings and back. Storages use it so the persisted data is
+ * identical regardless of the storage backend.
+ */
+export interface Codec {
+  encode: (value: unknown) => string;
+  decode: (text: string) => unknown;
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it, vi } from 'vitest';
+import createHydrationStateStore from './create-hydration-state-store';
+import { HydrationState } from './types';
+
+describe('createHydrationStateStore', () => {
+  it('should start idle', () => {
+    const store = createHydrationStateStore();
+
+    expect(store.getState()).toStrictEqual({ status: 'idle' });
+  });
+
+  it('should notify the listeners on state change', () => {
+    const store = createHydrationStateStore();
+    const listener = vi.fn();
+    store.subscribe(listener);
+
+    const state: HydrationState = { status: 'hydrated', report: { complete: true, repairs: [] } };
+    store.setState(state);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(store.getState()).toBe(state);
+  });
+
+  it('should not notify unsubscribed listeners', () => {
+    const store = createHydrationStateStore();
+    const listener = vi.fn();
+    const unsubscribe = store.subscribe(listener);
+
+    unsubscribe();
+    store.setState({ status: 'loading' });
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
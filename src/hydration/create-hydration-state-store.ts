@@ -0,0 +1,28 @@
+import { HydrationState } from './types';
+
+/**
+ * A minimal external store holding the hydration state, so it can be read with
+ * `useSyncExternalStore` from anywhere in the tree.
+ */
+const createHydrationStateStore = () => {
+  let state: HydrationState = { status: 'idle' };
+  const listeners = new Set<() => void>();
+
+  return {
+    getState: () => state,
+    setState(nextState: HydrationState) {
+      state = nextState;
+      listeners.forEach((listener) => listener());
+    },
+    subscribe(listener: () => void) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+};
+
+export type HydrationStateStore = ReturnType<typeof createHydrationStateStore>;
+
+export default createHydrationStateStore;
@@ -1,5 +1,5 @@
 import { applySnapshot, Instance, SnapshotIn, types } from 'mobx-state-tree';
-import { beforeEach, describe, expect, it } from 'vitest';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
 import hydrateStore from './hydrate-store';
 
 const addressModel = types.model('TestAddressModel', {
@@ -1966,4 +1966,271 @@ describe('hydrate store', () => {
       });
     });
   });
+
+  describe('should report', () => {
+    it('a complete hydration when data is correct', () => {
+      const snapshot = simpleSnapshotModifier(testSnapshot);
+
+      const report = hydrateStore(testStoreModel, store, snapshot);
+
+      expect(report).toStrictEqual({ complete: true, repairs: [] });
+    });
+
+    it('a required field restored from the initial snapshot', () => {
+      const snapshot = simpleSnapshotModifier(testSnapshot, 'name', 42);
+
+      const report = hydrateStore(testStoreModel, store, snapshot);
+
+      expect(report).toStrictEqual({
+        complete: false,
+        repairs: [{ path: '/name', action: 'restore-from-init', value: 42 }],
+      });
+    });
+
+    it('an optional field reset to its default value', () => {
+      const snapshot = simpleSnapshotModifier(testSnapshot, 'title', 42);
+
+      const report = hydrateStore(testStoreModel, store, snapshot);
+
+      expect(report).toStrictEqual({
+        complete: false,
+        repairs: [{ path: '/title', action: 'reset-to-default', value: 42 }],
+      });
+    });
+
+    it('an item removed from an array or map', () => {
+      const snapshot = simpleSnapshotModifier(testSnapshot, 'todos', {
+        ...testSnapshot.todos,
+        3: { id: 3, text: 3, done: false },
+      });
+
+      const report = hydrateStore(testStoreModel, store, snapshot);
+
+      expect(report.complete).toBe(false);
+      expect(report.repairs).toStrictEqual([
+        { path: '/todos/3', action: 'remove', value: { id: 3, text: 3, done: false } },
+      ]);
+    });
+
+    it('every repaired path', () => {
+      const snapshot = {
+        ...simpleSnapshotModifier(testSnapshot),
+        name: 42,
+        title: 42,
+        features: ['One', 2],
+      } as unknown as SnapshotIn<TestStoreModel>;
+
+      const report = hydrateStore(testStoreModel, store, snapshot);
+
+      expect(report.complete).toBe(false);
+      expect(report.repairs).toHaveLength(3);
+      expect(report.repairs).toContainEqual({
+        path: '/name',
+        action: 'restore-from-init',
+        value: 42,
+      });
+      expect(report.repairs).toContainEqual({
+        path: '/title',
+        action: 'reset-to-default',
+        value: 42,
+      });
+      expect(report.repairs).toContainEqual({ path: '/features/1', action: 'remove', value: 2 });
+    });
+  });
+
+  describe('with hydration strategy', () => {
+    const invalidSnapshot = {
+      ...simpleSnapshotModifier(testSnapshot),
+      name: 42,
+      profile: { firstName: 'Jane', lastName: 42 },
+    } as unknown as SnapshotIn<TestStoreModel>;
+
+    it('`strict` should throw on any validation error', () => {
+      expect(() =>
+        hydrateStore(testStoreModel, store, invalidSnapshot, { strategy: 'strict' })
+      ).toThrowError(/Strict hydration failed. Invalid paths: \/name, \/profile\/lastName/);
+      expect(store.name).toBe(testInitialState.name);
+    });
+
+    it('`strict` should hydrate valid data', () => {
+      const snapshot = simpleSnapshotModifier(testSnapshot);
+
+      const report = hydrateStore(testStoreModel, store, snapshot, { strategy: 'strict' });
+
+      expect(report.complete).toBe(true);
+      expect(store.name).toBe(snapshot.name);
+    });
+
+    it('`discard-invalid-subtrees` should replace invalid top-level keys wholesale', () => {
+      const report = hydrateStore(testStoreModel, store, invalidSnapshot, {
+        strategy: 'discard-invalid-subtrees',
+      });
+
+      expect(store.name).toBe(testInitialState.name);
+      expect(store.profile.firstName).toBe(testInitialState.profile.firstName);
+      expect(store.profile.lastName).toBe(testInitialState.profile.lastName);
+      expect(store.age).toBe(testSnapshot.age);
+      expect(report.repairs).toStrictEqual([
+        { path: '/name', action: 'restore-from-init', value: 42 },
+        {
+          path: '/profile',
+          action: 'restore-from-init',
+          value: { firstName: 'Jane', lastName: 42 },
+        },
+      ]);
+    });
+
+    it('should use the strategy override for a top-level key', () => {
+      const snapshot = {
+        ...invalidSnapshot,
+        features: ['One', 2, 'Three'],
+      } as unknown as SnapshotIn<TestStoreModel>;
+
+      const report = hydrateStore(testStoreModel, store, snapshot, {
+        strategy: 'discard-invalid-subtrees',
+        strategyOverrides: { features: 'repair' },
+      });
+
+      expect(store.name).toBe(testInitialState.name);
+      expect(store.features).toStrictEqual(['One', 'Three']);
+      expect(report.repairs).toContainEqual({ path: '/features/1', action: 'remove', value: 2 });
+      expect(report.repairs).toHaveLength(3);
+    });
+
+    it('should throw when an overridden key is `strict` and invalid', () => {
+      expect(() =>
+        hydrateStore(testStoreModel, store, invalidSnapshot, {
+          strategyOverrides: { profile: 'strict' },
+        })
+      ).toThrowError(/Invalid paths: \/profile\/lastName/);
+    });
+
+    it('should not throw when an overridden `strict` key is valid', () => {
+      const report = hydrateStore(testStoreModel, store, invalidSnapshot, {
+        strategyOverrides: { age: 'strict' },
+      });
+
+      expect(report.complete).toBe(false);
+      expect(store.age).toBe(testSnapshot.age);
+    });
+  });
+
+  describe('with repair resolvers', () => {
+    it('should use the replacement from a resolver matching the path', () => {
+      const snapshot = simpleSnapshotModifier(testSnapshot, 'age', '42');
+
+      const report = hydrateStore(testStoreModel, store, snapshot, {
+        resolvers: [{ path: '/age', resolve: ({ value }) => Number(value) }],
+      });
+
+      expect(store.age).toBe(42);
+      expect(report.repairs).toStrictEqual([{ path: '/age', action: 'resolve', value: '42' }]);
+    });
+
+    it('should match resolvers by path pattern', () => {
+      const snapshot = simpleSnapshotModifier(testSnapshot, 'todos', {
+        1: { id: 1, text: 'First todo', done: 'true' },
+        2: { id: 2, text: 'Second todo', done: 'false' },
+      });
+
+      hydrateStore(testStoreModel, store, snapshot, {
+        resolvers: [{ path: '/todos/*/done', resolve: ({ value }) => value === 'true' }],
+      });
+
+      expect(store.todos.get('1')?.done).toBe(true);
+      expect(store.todos.get('2')?.done).toBe(false);
+    });
+
+    it('should match resolvers by type', () => {
+      const snapshot = simpleSnapshotModifier(testSnapshot, 'birthDate', '1995-02-01T00:00:00Z');
+
+      hydrateStore(testStoreModel, store, snapshot, {
+        resolvers: [{ type: types.Date, resolve: ({ value }) => new Date(value as string) }],
+      });
+
+      expect(store.birthDate.getTime()).toBe(Date.parse('1995-02-01T00:00:00Z'));
+    });
+
+    it('should match resolvers by a type wrapped in an optional type', () => {
+      const model = types.model({ lastLogin: types.maybe(types.Date) });
+      const instance = model.create({});
+
+      hydrateStore(model, instance, { lastLogin: '1995-02-01T00:00:00Z' } as never, {
+        resolvers: [{ type: types.Date, resolve: ({ value }) => new Date(value as string) }],
+      });
+
+      expect(instance.lastLogin?.getTime()).toBe(Date.parse('1995-02-01T00:00:00Z'));
+    });
+
+    it('should match resolvers by the type of a model containing the invalid path', () => {
+      const snapshot = simpleSnapshotModifier(testSnapshot, 'profile', {
+        first: 'John',
+        last: 42,
+      });
+      const resolve = vi.fn(({ value }) => {
+        const { first, last } = value as { first: string; last: number };
+        return { firstName: first, lastName: String(last) };
+      });
+
+      const report = hydrateStore(testStoreModel, store, snapshot, {
+        resolvers: [{ type: profileModel, resolve }],
+      });
+
+      expect(resolve).toHaveBeenCalledTimes(1);
+      expect(resolve).toHaveBeenCalledWith(expect.objectContaining({ path: '/profile' }));
+      expect(store.profile.firstName).toBe('John');
+      expect(store.profile.lastName).toBe('42');
+      expect(report.repairs).toStrictEqual([
+        { path: '/profile', action: 'resolve', value: { first: 'John', last: 42 } },
+      ]);
+    });
+
+    it('should pass the context to the resolver', () => {
+      const snapshot = simpleSnapshotModifier(testSnapshot, 'name', 42);
+      const resolve = vi.fn(() => 'Resolved');
+
+      hydrateStore(testStoreModel, store, snapshot, { resolvers: [{ resolve }] });
+
+      expect(resolve).toHaveBeenCalledWith({
+        path: '/name',
+        value: 42,
+        type: testStoreModel.properties.name,
+        init: testInitialState.name,
+      });
+      expect(store.name).toBe('Resolved');
+    });
+
+    it('should fall back to the next resolver or built-in repair on invalid replacement', () => {
+      const snapshot = simpleSnapshotModifier(testSnapshot, 'name', 42);
+      const second = vi.fn(() => 42);
+
+      const report = hydrateStore(testStoreModel, store, snapshot, {
+        resolvers: [
+          { path: '/name', resolve: () => null },
+          { path: '/name', resolve: second },
+        ],
+      });
+
+      expect(second).toHaveBeenCalled();
+      expect(store.name).toBe(testInitialState.name);
+      expect(report.repairs).toStrictEqual([
+        { path: '/name', action: 'restore-from-init', value: 42 },
+      ]);
+    });
+
+    it('should not use resolvers that do not match', () => {
+      const snapshot = simpleSnapshotModifier(testSnapshot, 'name', 42);
+      const resolve = vi.fn();
+
+      hydrateStore(testStoreModel, store, snapshot, {
+        resolvers: [
+          { path: '/title', resolve },
+          { type: types.number, resolve },
+          { path: '/name', type: types.number, resolve },
+        ],
+      });
+
+      expect(resolve).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -9,12 +9,23 @@ import {
   isOptionalType,
   SnapshotIn,
 } from 'mobx-state-tree';
+import {
+  HydrateOptions,
+  HydrationReport,
+  PathObject,
+  Repair,
+  RepairAction,
+  RepairResolver,
+} from './types';
 import {
   buildTree,
   checkSetForPrefix,
   createDefaultValue,
+  findResolvers,
+  getAncestors,
   removeEmptyItemsRecursively,
   reverseDepthFirstTraversal,
+  tryGet,
   tryResolveNearestExistingParent,
   validationErrorsParser,
 } from './utils';
@@ -22,11 +33,12 @@ import {
 const hydrateStore = <T extends IAnyModelType>(
   model: IAnyModelType,
   store: Instance<T>,
-  snapshot: SnapshotIn<T>
-) => {
+  snapshot: SnapshotIn<T>,
+  { strategy = 'repair', strategyOverrides = {}, resolvers = [] }: HydrateOptions = {}
+): HydrationReport => {
   try {
     applySnapshot(store, snapshot);
-    return true;
+    return { complete: true, repairs: [] };
   } catch (error) {
     if (error instanceof Error && error.message.startsWith('[mobx-state-tree]')) {
       const validationErrors = model.validate(snapshot, [{ path: '', type: model }]);
@@ -38,7 +50,18 @@ const hydrateStore = <T extends IAnyModelType>(
         throw error;
       }
 
-      const tree = buildTree(errors);
+      // The first segment is always the root, so the second one is the top-level key.
+      // Errors on the root itself can only be handled by the store level strategy.
+      const getStrategy = ({ pathSegments }: PathObject) =>
+        (pathSegments.length > 1 && strategyOverrides[pathSegments[1]]) || strategy;
+
+      const strictErrors = errors.filter((error) => getStrategy(error) === 'strict');
+
+      if (strictErrors.length > 0) {
+        throw new Error(
+          `Strict hydration failed. Invalid paths: ${strictErrors.map(({ path }) => path).join(', ')}`
+        );
+      }
 
       const storeSnapshot = getSnapshot<SnapshotIn<T>>(store);
 
@@ -46,6 +69,59 @@ const hydrateStore = <T extends IAnyModelType>(
 
       const processedPaths = new Set<string>();
 
+      const repairs: Repair[] = [];
+
+      const addRepair = (path: string, action: RepairAction) => {
+        repairs.push({ path, action, value: tryGet(path, snapshot) });
+      };
+
+      /** Replaces the value at the path with the first valid replacement of the resolvers. */
+      const applyResolvers = (
+        { path, type }: Pick<PathObject, 'path' | 'type'>,
+        matchingResolvers: RepairResolver[]
+      ) => {
+        for (const resolver of matchingResolvers) {
+          const replacement = resolver.resolve({
+            path,
+            value: tryGet(path, newSnapshot),
+            type,
+            init: tryGet(path, storeSnapshot),
+          });
+
+          if (type.is(replacement)) {
+            assign(path, newSnapshot, replacement);
+            addRepair(path, 'resolve');
+            processedPaths.add(path);
+            return true;
+          }
+        }
+        return false;
+      };
+
+      // The paths replaced as a whole by a resolver of their type.
+      const resolvedSubtrees = new Set<string>();
+      const typedResolvers = resolvers.filter((resolver) => resolver.type !== undefined);
+
+      const invalidSubtrees = new Set<string>();
+
+      for (const pathObject of errors) {
+        if (getStrategy(pathObject) === 'discard-invalid-subtrees') {
+          if (pathObject.pathSegments.length < 2) {
+            // The snapshot itself is invalid, there is no subtree to discard.
+            throw error;
+          }
+          invalidSubtrees.add(pathObject.pathSegments.slice(0, 2).join('/'));
+        }
+      }
+
+      for (const path of invalidSubtrees) {
+        // Replace the whole subtree with the value from the initial snapshot.
+        assign(path, newSnapshot, tryGet(path, storeSnapshot));
+        addRepair(path, 'restore-from-init');
+      }
+
+      const tree = buildTree(errors.filter((error) => getStrategy(error) === 'repair'));
+
       // We need to process the paths in reverse order to avoid processing a child before its parent.
       // Also, processing the child may fix the issues with the parent. We need to verify this.
       reverseDepthFirstTraversal(tree, (error) => {
@@ -62,6 +138,22 @@ const hydrateStore = <T extends IAnyModelType>(
             return;
           }
         }
+        const ancestors = getAncestors(error.value);
+        if (ancestors.some(({ path }) => resolvedSubtrees.has(path))) {
+          processedPaths.add(error.value.path);
+          return;
+        }
+        // Try the custom resolvers first, the first valid replacement wins.
+        if (applyResolvers(error.value, findResolvers(resolvers, error.value))) {
+          return;
+        }
+        // Then the resolvers of the types containing the path, ie. to convert a whole model.
+        for (const ancestor of ancestors) {
+          if (applyResolvers(ancestor, findResolvers(typedResolvers, ancestor))) {
+            resolvedSubtrees.add(ancestor.path);
+            return;
+          }
+        }
         // For nested paths
         if (error.value.isNested) {
           // If the type is optional, update the snapshot with its
@@ -70,6 +162,7 @@ const hydrateStore = <T extends IAnyModelType>(
             // Calling create on an optional type will return the default value.
             const defaultValue = createDefaultValue(error.value.type);
             assign(error.value.path, newSnapshot, defaultValue);
+            addRepair(error.value.path, 'reset-to-default');
           } else {
             // If the type is not optional
             // Find the nearest parent node
@@ -87,6 +180,7 @@ const hydrateStore = <T extends IAnyModelType>(
               // Remove the child path from the snapshot.
               if (isMapType(nearestParent.type) || isArrayType(nearestParent.type)) {
                 remove(nearestParent.childPath, newSnapshot);
+                addRepair(nearestParent.childPath, 'remove');
               } else {
                 // If the nearest parent is a model type,
                 // If the parent is optional, update the snapshot with its optional value.
@@ -94,11 +188,13 @@ const hydrateStore = <T extends IAnyModelType>(
                   // Calling create on an optional type will return the default value.
                   const defaultValue = createDefaultValue(nearestParent.type);
                   assign(nearestParent.nearestParentPath, newSnapshot, defaultValue);
+                  addRepair(nearestParent.nearestParentPath, 'reset-to-default');
                 } else {
                   // Otherwise, it should exist in the initial snapshot.
                   // Replace the value of the nearest parent with the value from the initial snapshot.
                   const nearestParentValue = get(nearestParent.nearestParentPath, storeSnapshot);
                   assign(nearestParent.nearestParentPath, newSnapshot, nearestParentValue);
+                  addRepair(nearestParent.nearestParentPath, 'restore-from-init');
                 }
                 processedPaths.add(nearestParent.nearestParentPath);
               }
@@ -111,11 +207,13 @@ const hydrateStore = <T extends IAnyModelType>(
             // Calling create on an optional type will return the default value.
             const defaultValue = createDefaultValue(error.value.type);
             assign(error.value.path, newSnapshot, defaultValue);
+            addRepair(error.value.path, 'reset-to-default');
           } else {
             // If the field is not optional, it should exist in the initial snapshot.
             // Replace the value with the value from the initial snapshot.
             const value = get(error.value.path, storeSnapshot);
             assign(error.value.path, newSnapshot, value);
+            addRepair(error.value.path, 'restore-from-init');
           }
         }
         processedPaths.add(error.value.path);
@@ -125,7 +223,7 @@ const hydrateStore = <T extends IAnyModelType>(
 
       applySnapshot(store, finalSnapshot);
 
-      return false;
+      return { complete: false, repairs };
     } else {
       throw error;
     }
@@ -4,6 +4,8 @@ export interface PathObject {
   path: string;
   type: IAnyType;
   pathSegments: string[];
+  /** The types expected at every segment of the path, starting with the root. */
+  types: IAnyType[];
   isNested: boolean;
 }
 
@@ -21,3 +23,97 @@ export interface TreeNode {
 export interface TreeNodeWithValue extends TreeNode {
   value: PathObject;
 }
+
+/**
+ * The action taken to repair an invalid path in the persisted snapshot.
+ * - `reset-to-default`: the value was replaced with the default value of its optional type.
+ * - `restore-from-init`: the value was replaced with the value from the initial snapshot.
+ * - `remove`: the value was removed from its parent array or map.
+ * - `resolve`: the value was replaced by a custom `RepairResolver`.
+ */
+export type RepairAction = 'reset-to-default' | 'restore-from-init' | 'remove' | 'resolve';
+
+export interface Repair {
+  /** JSON pointer to the repaired path. */
+  path: string;
+  action: RepairAction;
+  /** The offending persisted value at the path. */
+  value: unknown;
+}
+
+export interface HydrationReport {
+  /** Whether the persisted snapshot was hydrated without any repair. */
+  complete: boolean;
+  repairs: Repair[];
+}
+
+/**
+ * How invalid persisted data is handled during hydration.
+ * - `strict`: any validation error discards the whole persisted snapshot.
+ * - `repair`: invalid paths are repaired individually, see `RepairAction`.
+ * - `discard-invalid-subtrees`: any top-level key that fails validation is
+ *   replaced wholesale with the value from the initial snapshot.
+ */
+export type HydrationStrategy = 'strict' | 'repair' | 'discard-invalid-subtrees';
+
+/**
+ * How the store reacts when the persisted data is changed outside of it.
+ * - `rehydrate`: the store is hydrated from the storage again, as on startup.
+ * - `merge`: the persisted paths are hydrated from the storage, the rest of the store
+ *   keeps its current values.
+ * - `ignore`: the change is overwritten by the next write of the store.
+ */
+export type StorageChangeStrategy = 'rehydrate' | 'merge' | 'ignore';
+
+export interface RepairResolverContext {
+  /** JSON pointer to the invalid path. */
+  path: string;
+  /** The invalid persisted value at the path. */
+  value: unknown;
+  /** The MST type expected at the path. */
+  type: IAnyType;
+  /** The value at the path in the initial snapshot. */
+  init: unknown;
+}
+
+/**
+ * Repairs an invalid path of the persisted snapshot with a custom replacement, ie.
+ * coercing `"42"` to `42`. A resolver applies to the paths matching its `path`
+ * pattern (see `matchPath`) and/or expecting its `type`. When both are omitted,
+ * it applies to every invalid path. A resolver with a `type` also applies to the
+ * values of that type containing an invalid path, which are replaced as a whole.
+ *
+ * If the replacement is not valid for the expected type, the next resolver or the
+ * built-in repair logic is used instead.
+ */
+export interface RepairResolver {
+  path?: string;
+  type?: IAnyType;
+  resolve: (context: RepairResolverContext) => unknown;
+}
+
+export interface HydrateOptions {
+  /** The strategy to use for the whole store. default is `repair`. */
+  strategy?: HydrationStrategy;
+  /** Strategies to use for specific top-level keys, overriding `strategy`. */
+  strategyOverrides?: Record<string, HydrationStrategy | undefined>;
+  /** Custom resolvers to try, in order, before the built-in repair logic. */
+  resolvers?: RepairResolver[];
+}
+
+/**
+ * - `idle`: hydration has not started yet, the store holds the initial snapshot.
+ * - `loading`: the persisted snapshot is being read and hydrated.
+ * - `hydrated`: the store is hydrated, or there was nothing to hydrate.
+ * - `partial`: the store is hydrated, but some paths had to be repaired.
+ * - `failed`: the persisted snapshot was thrown away, the store holds the initial snapshot.
+ */
+export type HydrationStatus = 'idle' | 'loading' | 'hydrated' | 'partial' | 'failed';
+
+export interface HydrationState {
+  status: HydrationStatus;
+  /** The hydration report, when the store is `hydrated` or `partial`. */
+  report?: HydrationReport;
+  /** The error the hydration failed with, when the store is `failed`. */
+  error?: unknown;
+}
@@ -1,3 +1,4 @@
+import { get, Pointable } from '@hyperjump/json-pointer';
 import {
   escapeJsonPath,
   getSnapshot,
@@ -5,17 +6,21 @@ import {
   IAnyModelType,
   IAnyType,
   Instance,
+  isOptionalType,
   isStateTreeNode,
+  isUnionType,
   tryResolve,
 } from 'mobx-state-tree';
 import { IValidationResult, SnapshotOut } from 'mobx-state-tree/dist/internal';
 import isObjectLike from '../utils/is-object-like';
-import { NearestParent, PathObject, TreeNode, TreeNodeWithValue } from './types';
+import matchPath from '../utils/match-path';
+import { NearestParent, PathObject, RepairResolver, TreeNode, TreeNodeWithValue } from './types';
 
 export const validationErrorsParser = (errors: IValidationResult): PathObject[] =>
   errors.map((error) => {
     const type = error.context[error.context.length - 1].type;
     const pathSegments = error.context.map(({ path }) => escapeJsonPath(path));
+    const types = error.context.map(({ type }) => type);
     const path = pathSegments.join('/');
     const isNested = pathSegments.length > 2;
 
@@ -23,6 +28,7 @@ export const validationErrorsParser = (errors: IValidationResult): PathObject[]
       path,
       pathSegments,
       type,
+      types,
       isNested,
     };
   });
@@ -32,7 +38,8 @@ export const removeEmptyItemsRecursively = (obj: unknown): unknown => {
     return obj
       .map((item) => removeEmptyItemsRecursively(item))
       .filter((item) => item !== undefined);
-  } else if (isObjectLike(obj)) {
+  } else if (isObjectLike(obj) && Object.getPrototypeOf(obj) === Object.prototype) {
+    // Only plain objects, class instances such as `Date` from resolvers are kept as is.
     const newObj: Record<string, unknown> = {};
     for (const key in obj) {
       newObj[key] = removeEmptyItemsRecursively(obj[key]);
@@ -192,3 +199,57 @@ export const checkSetForPrefix = (haystack: Set<string>, prefix: string): boolea
   }
   return false;
 };
+
+/**
+ * Same as `get` from `@hyperjump/json-pointer`, but returns `undefined`
+ * instead of throwing when a parent of the path does not exist.
+ */
+export const tryGet = (path: string, value: Pointable): unknown => {
+  try {
+    return get(path, value);
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Checks whether the type is the target type, or an optional or union type
+ * (ie. `types.maybe`) wrapping it. MST does not expose the wrapped types publicly,
+ * so this relies on the internal `_subtype` and `_types` properties.
+ */
+export const isTypeOrWraps = (type: IAnyType, target: IAnyType): boolean => {
+  if (type === target) {
+    return true;
+  }
+  if (isUnionType(type)) {
+    const { _types } = type as unknown as { _types?: IAnyType[] };
+    return !!_types && _types.some((subtype) => isTypeOrWraps(subtype, target));
+  }
+  if (isOptionalType(type)) {
+    const { _subtype } = type as unknown as { _subtype?: IAnyType };
+    return !!_subtype && isTypeOrWraps(_subtype, target);
+  }
+  return false;
+};
+
+export const findResolvers = (
+  resolvers: RepairResolver[],
+  { path, type }: Pick<PathObject, 'path' | 'type'>
+) =>
+  resolvers.filter(
+    (resolver) =>
+      (resolver.path === undefined || matchPath(resolver.path, path)) &&
+      (resolver.type === undefined || isTypeOrWraps(type, resolver.type))
+  );
+
+/**
+ * Returns the paths containing the path, nearest first, with the types expected at them.
+ * The root is not included.
+ */
+export const getAncestors = ({ pathSegments, types }: PathObject) => {
+  const ancestors: Pick<PathObject, 'path' | 'type'>[] = [];
+  for (let i = pathSegments.length - 2; i > 0; i--) {
+    ancestors.push({ path: pathSegments.slice(0, i + 1).join('/'), type: types[i] });
+  }
+  return ancestors;
+};
@@ -0,0 +1,656 @@
+import { types } from 'mobx-state-tree';
+import React, { ReactElement, StrictMode, Suspense } from 'react';
+import { act, create, ReactTestRenderer } from 'react-test-renderer';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import createPersistentStore, {
+  chunkedStorage,
+  CorruptedDataError,
+  createQuarantine,
+  DecryptionError,
+  encryptedStorage,
+  Migrations,
+  NewerVersionError,
+  PersistentStoreOptions,
+  StorageOptions,
+} from './index';
+import { unwrapSnapshot, wrapSnapshot } from './persistence/envelope';
+import createLeaderElection from './sync/create-leader-election';
+import createMemoryStorage from './test-utils/create-memory-storage';
+
+type AsyncEffect = {
+  effect: (isMounted: () => boolean) => Promise<(() => void) | undefined>;
+  destroy: (disposer?: () => void) => void;
+};
+
+const effects = vi.hoisted(() => [] as AsyncEffect[]);
+const backgroundListeners = vi.hoisted(() => new Set<() => void>());
+
+// The provider is rendered by calling it, so its effect is run by the tests.
+vi.mock('use-async-effect', () => ({
+  default: (effect: AsyncEffect['effect'], destroy: AsyncEffect['destroy']) =>
+    void effects.push({ effect, destroy }),
+}));
+
+vi.mock('./sync/create-leader-election', async (importOriginal) => {
+  const { default: actual } =
+    await importOriginal<typeof import('./sync/create-leader-election')>();
+  return { default: vi.fn(actual) };
+});
+
+vi.mock('./utils/on-app-background', () => ({
+  default: (listener: () => void) => {
+    backgroundListeners.add(listener);
+    return () => backgroundListeners.delete(listener);
+  },
+}));
+
+const Profile = types.model('Profile', { name: '', age: 0 });
+const RootStore = types
+  .model('RootStore', {
+    profile: types.optional(Profile, {}),
+    count: 0,
+  })
+  .actions((self) => ({
+    increment() {
+      self.count++;
+    },
+    rename(name: string) {
+      self.profile.name = name;
+    },
+  }));
+
+// Lets `act` wait for the updates of the rendered trees.
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+
+const createStore = (
+  storage: StorageOptions,
+  options?: Partial<PersistentStoreOptions<typeof RootStore>>
+) =>
+  createPersistentStore(RootStore, storage, {}, undefined, {
+    logging: false,
+    devtool: false,
+    writeDelay: 10,
+    writeRetries: 0,
+    ...options,
+  });
+
+/** Creates the store and mounts its provider. */
+const mount = async (
+  storage: StorageOptions,
+  options?: Partial<PersistentStoreOptions<typeof RootStore>>
+) => {
+  const [PersistentStoreProvider, , persistenceController] = createStore(storage, options);
+  effects.length = 0;
+  const element = PersistentStoreProvider({ children: null }) as ReactElement<{
+    value: ReturnType<typeof RootStore.create>;
+  }>;
+  const [{ effect, destroy }] = effects;
+  const disposer = await effect(() => true);
+
+  return {
+    store: element.props.value,
+    persistenceController,
+    unmount: () => destroy(disposer),
+  };
+};
+
+/** Renders the element. The effects of the providers are run by the tests. */
+const render = (element: ReactElement) => {
+  effects.length = 0;
+  let renderer!: ReactTestRenderer;
+  act(() => {
+    renderer = create(element);
+  });
+  return renderer;
+};
+
+/** Holds the reads of the storage until they are released. */
+const holdReads = (storage: StorageOptions) => {
+  let release!: () => void;
+  const released = new Promise<void>((resolve) => {
+    release = resolve;
+  });
+  const getItem = vi.fn(async (key: string) => {
+    await released;
+    return storage.getItem(key);
+  });
+  return { storage: { ...storage, getItem }, getItem, release };
+};
+
+describe('createPersistentStore', () => {
+  let memory: ReturnType<typeof createMemoryStorage>;
+
+  beforeEach(() => {
+    memory = createMemoryStorage();
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('persistenceController', () => {
+    it('should clear the store and the storage after a failed write', async () => {
+      const setItem = vi.fn(memory.storage.setItem);
+      const { store, persistenceController, unmount } = await mount({
+        ...memory.storage,
+        setItem,
+      });
+
+      store.increment();
+      await persistenceController.flush();
+      setItem.mockRejectedValueOnce(new Error('Quota'));
+      store.increment();
+      await expect(persistenceController.flush()).rejects.toThrow('Quota');
+
+      await persistenceController.clear();
+
+      expect(memory.items.size).toBe(0);
+      expect(store.count).toBe(0);
+      unmount();
+    });
+  });
+
+  describe('hydration', () => {
+    it('should keep the data that can not be decrypted, and not persist the changes', async () => {
+      const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, [
+        'encrypt',
+        'decrypt',
+      ]);
+      await encryptedStorage(memory.storage, {
+        getCurrentKey: () => ({ id: 'v1', key }),
+        getKey: () => key,
+      }).setItem('persistentStore', { count: 1 });
+      const persisted = memory.items.get('persistentStore');
+      const onError = vi.fn();
+
+      const storage = encryptedStorage(memory.storage, {
+        getCurrentKey: () => ({ id: 'v1', key }),
+        // The keychain is not ready yet.
+        getKey: () => null,
+      });
+      const { store, persistenceController, unmount } = await mount(storage, { onError });
+
+      store.increment();
+      await persistenceController.flush();
+
+      expect(memory.items.get('persistentStore')).toStrictEqual(persisted);
+      expect(onError).toHaveBeenCalledWith(expect.any(DecryptionError));
+      unmount();
+    });
+
+    it('should persist the changes again after clearing the data that can not be decrypted', async () => {
+      const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, [
+        'encrypt',
+        'decrypt',
+      ]);
+      memory.items.set('persistentStore', { kid: 'v0', iv: 'AAAA', ct: 'AAAA' });
+      const storage = encryptedStorage(memory.storage, {
+        getCurrentKey: () => ({ id: 'v1', key }),
+        getKey: (id) => (id === 'v1' ? key : null),
+      });
+      const { store, persistenceController, unmount } = await mount(storage);
+
+      await persistenceController.clear();
+      store.increment();
+      await persistenceController.flush();
+
+      expect(unwrapSnapshot(await storage.getItem('persistentStore')).data).toMatchObject({
+        count: 1,
+      });
+      unmount();
+    });
+
+    it('should hydrate and persist the changes once the key is available', async () => {
+      const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, [
+        'encrypt',
+        'decrypt',
+      ]);
+      let available = false;
+      const storage = encryptedStorage(memory.storage, {
+        getCurrentKey: () => ({ id: 'v1', key }),
+        getKey: () => (available ? key : null),
+      });
+      await storage.setItem('persistentStore', wrapSnapshot({ count: 3 }, 0));
+      const { store, persistenceController, unmount } = await mount(storage);
+
+      expect(store.count).toBe(0);
+      available = true;
+      await expect(persistenceController.retryHydration()).resolves.toBe(true);
+      expect(store.count).toBe(3);
+
+      store.increment();
+      await persistenceController.flush();
+      expect(unwrapSnapshot(await storage.getItem('persistentStore')).data).toMatchObject({
+        count: 4,
+      });
+      unmount();
+    });
+
+    it('should keep the data written by a newer version, and not persist the changes', async () => {
+      const envelope = wrapSnapshot({ count: 3 }, 2);
+      memory.items.set('persistentStore', envelope);
+      const onError = vi.fn();
+
+      const { store, persistenceController, unmount } = await mount(memory.storage, {
+        version: 1,
+        onError,
+      });
+
+      store.increment();
+      await persistenceController.flush();
+
+      expect(memory.items.get('persistentStore')).toStrictEqual(envelope);
+      expect(onError).toHaveBeenCalledWith(expect.any(NewerVersionError));
+      unmount();
+    });
+
+    it('should migrate the partitions persisted with different versions separately', async () => {
+      memory.items.set('persistentStore', wrapSnapshot({ count: 3 }, 1));
+      memory.items.set('persistentStore:profile', wrapSnapshot({ profile: { name: 'john' } }, 0));
+      const migrations: Migrations = {
+        // The part of the storage key does not have the profile.
+        1: (_, { profile, ...snapshot }) =>
+          profile
+            ? { ...snapshot, profile: { name: (profile as { name: string }).name.toUpperCase() } }
+            : snapshot,
+      };
+
+      const { store, persistenceController, unmount } = await mount(memory.storage, {
+        version: 1,
+        migrations,
+        partitions: { '/profile': 'persistentStore:profile' },
+      });
+
+      expect(store.count).toBe(3);
+      expect(store.profile.name).toBe('JOHN');
+
+      await persistenceController.flush();
+      expect(unwrapSnapshot(memory.items.get('persistentStore:profile')).v).toBe(1);
+      unmount();
+    });
+
+    it('should quarantine the data that is corrupted, and persist the changes', async () => {
+      const storage = chunkedStorage(memory.storage, { chunkSize: 16 });
+      await storage.setItem('persistentStore', wrapSnapshot({ count: 3 }, 0));
+      const [chunk] = [...memory.items.keys()].filter((key) => key.includes(':chunk:'));
+      memory.items.delete(chunk);
+      const onError = vi.fn();
+
+      const { store, persistenceController, unmount } = await mount(storage, {
+        quarantine: true,
+        onError,
+      });
+
+      expect(store.count).toBe(0);
+      expect(onError).toHaveBeenCalledWith(
+        expect.any(CorruptedDataError),
+        expect.objectContaining({ reason: expect.stringMatching(/is missing/) })
+      );
+      store.increment();
+      await persistenceController.flush();
+      expect(unwrapSnapshot(await storage.getItem('persistentStore')).data).toMatchObject({
+        count: 1,
+      });
+      unmount();
+    });
+
+    it('should throw away only the journal when it is corrupted', async () => {
+      memory.items.set('persistentStore', wrapSnapshot({ count: 7 }, 0));
+      memory.items.set('persistentStore:journal', 'corrupted');
+      const storage: StorageOptions = {
+        ...memory.storage,
+        getItem: (key) => {
+          const item = memory.storage.getItem(key);
+          if (key.endsWith(':journal') && item) {
+            throw new CorruptedDataError(`Value of ${key} can not be decoded.`, item);
+          }
+          return item;
+        },
+      };
+      const onError = vi.fn();
+
+      const { store, unmount } = await mount(storage, { journal: true, quarantine: true, onError });
+
+      expect(store.count).toBe(7);
+      expect(memory.items.has('persistentStore')).toBe(true);
+      expect(memory.items.has('persistentStore:journal')).toBe(false);
+      expect(onError).toHaveBeenCalledWith(expect.any(CorruptedDataError), expect.anything());
+      const [entry] = await createQuarantine(memory.storage, 'persistentStore:journal').list();
+      expect(memory.items.get(entry.key)).toBe('corrupted');
+      unmount();
+    });
+
+    it('should quarantine the journal with the snapshot that fails to hydrate', async () => {
+      const envelope = { ...wrapSnapshot({ count: 3 }, 0), checksum: '0' };
+      const journal = { base: '0', patches: [{ op: 'replace', path: '/count', value: 4 }] };
+      memory.items.set('persistentStore', envelope);
+      memory.items.set('persistentStore:journal', journal);
+
+      const { unmount } = await mount(memory.storage, { journal: true, quarantine: true });
+
+      const [entry] = await createQuarantine(memory.storage, 'persistentStore:journal').list();
+      expect(memory.items.get(entry.key)).toStrictEqual(journal);
+      expect(memory.items.has('persistentStore:journal')).toBe(false);
+      unmount();
+    });
+
+    it('should settle the hydration when the persisted data can not be thrown away', async () => {
+      memory.items.set('persistentStore', { ...wrapSnapshot({ count: 3 }, 0), checksum: '0' });
+      const onError = vi.fn(() => {
+        throw new Error('onError failed');
+      });
+
+      const { store, persistenceController, unmount } = await mount(memory.storage, { onError });
+
+      expect(onError).toHaveBeenCalled();
+      store.increment();
+      await persistenceController.flush();
+      expect(memory.items.has('persistentStore')).toBe(false);
+      unmount();
+    });
+  });
+
+  describe('hydration status', () => {
+    it.each([
+      ['hydrated', wrapSnapshot({ count: 2 }, 0)],
+      ['partial', wrapSnapshot({ count: 'two' }, 0)],
+      ['failed', wrapSnapshot({ count: 2 }, 1)],
+    ])('should be %s once the provider has hydrated the store', async (status, envelope) => {
+      memory.items.set('persistentStore', envelope);
+      const { storage, release } = holdReads(memory.storage);
+      const [PersistentStoreProvider, , , useHydrationStatus] = createStore(storage);
+      const Status = () => <>{useHydrationStatus().status}</>;
+
+      const renderer = render(
+        <PersistentStoreProvider>
+          <Status />
+        </PersistentStoreProvider>
+      );
+      expect(renderer.toJSON()).toBe('idle');
+
+      const [{ effect, destroy }] = effects;
+      let mounting!: ReturnType<AsyncEffect['effect']>;
+      act(() => {
+        mounting = effect(() => true);
+      });
+      expect(renderer.toJSON()).toBe('loading');
+
+      let disposer: (() => void) | undefined;
+      await act(async () => {
+        release();
+        disposer = await mounting;
+      });
+      expect(renderer.toJSON()).toBe(status);
+
+      act(() => renderer.unmount());
+      destroy(disposer);
+    });
+
+    it('should render the fallback of the gate until the store is hydrated', async () => {
+      memory.items.set('persistentStore', wrapSnapshot({ count: 2 }, 0));
+      const { storage, release } = holdReads(memory.storage);
+      const [PersistentStoreProvider, usePersistentStore, , , PersistGate] = createStore(storage);
+      const Count = () => <>{usePersistentStore().count}</>;
+
+      const renderer = render(
+        <PersistentStoreProvider>
+          <PersistGate fallback="Loading">
+            <Count />
+          </PersistGate>
+        </PersistentStoreProvider>
+      );
+      expect(renderer.toJSON()).toBe('Loading');
+
+      const [{ effect, destroy }] = effects;
+      let mounting!: ReturnType<AsyncEffect['effect']>;
+      act(() => {
+        mounting = effect(() => true);
+      });
+      expect(renderer.toJSON()).toBe('Loading');
+
+      let disposer: (() => void) | undefined;
+      await act(async () => {
+        release();
+        disposer = await mounting;
+      });
+      expect(renderer.toJSON()).toBe('2');
+
+      act(() => renderer.unmount());
+      destroy(disposer);
+    });
+  });
+
+  describe('suspense', () => {
+    it('should suspend the consumers until the store is hydrated', async () => {
+      memory.items.set('persistentStore', wrapSnapshot({ count: 2 }, 0));
+      const { storage, getItem, release } = holdReads(memory.storage);
+      const [PersistentStoreProvider, usePersistentStore] = createStore(storage, {
+        suspense: true,
+      });
+      const suspended = new Set<unknown>();
+      const Count = () => {
+        try {
+          return <>{usePersistentStore().count}</>;
+        } catch (promise) {
+          suspended.add(promise);
+          throw promise;
+        }
+      };
+      const app = (
+        <StrictMode>
+          <PersistentStoreProvider>
+            <Suspense fallback="Loading">
+              <Count />
+            </Suspense>
+          </PersistentStoreProvider>
+        </StrictMode>
+      );
+
+      const first = render(app);
+      const providerEffects = [...effects];
+      act(() => first.unmount());
+      const renderer = render(app);
+      providerEffects.push(...effects);
+      const disposers = providerEffects.map(({ effect }) => effect(() => true));
+
+      expect(renderer.toJSON()).toBe('Loading');
+      // The consumers and the remounted providers share the same hydration.
+      expect(suspended.size).toBe(1);
+      expect(getItem).toHaveBeenCalledTimes(1);
+
+      const [hydration] = suspended;
+      await act(async () => {
+        release();
+        await hydration;
+      });
+
+      expect(renderer.toJSON()).toBe('2');
+      act(() => renderer.unmount());
+      for (const [index, { destroy }] of providerEffects.entries()) {
+        destroy(await disposers[index]);
+      }
+    });
+
+    it('should render the store once the hydration has failed', async () => {
+      memory.items.set('persistentStore', wrapSnapshot({ count: 2 }, 1));
+      const [PersistentStoreProvider, usePersistentStore, , useHydrationStatus] = createStore(
+        memory.storage,
+        { suspense: true }
+      );
+      const suspended: unknown[] = [];
+      const Count = () => {
+        try {
+          return <>{`${usePersistentStore().count} ${useHydrationStatus().status}`}</>;
+        } catch (promise) {
+          suspended.push(promise);
+          throw promise;
+        }
+      };
+
+      const renderer = render(
+        <PersistentStoreProvider>
+          <Suspense fallback="Loading">
+            <Count />
+          </Suspense>
+        </PersistentStoreProvider>
+      );
+      expect(renderer.toJSON()).toBe('Loading');
+
+      await act(async () => {
+        await suspended[0];
+      });
+
+      expect(renderer.toJSON()).toBe('0 failed');
+      act(() => renderer.unmount());
+    });
+  });
+
+  describe('writes', () => {
+    it('should skip writing a snapshot that is already persisted', async () => {
+      const { store, persistenceController, unmount } = await mount(memory.storage);
+
+      store.increment();
+      await persistenceController.flush();
+      store.rename('John');
+      store.rename('');
+      await persistenceController.flush();
+
+      expect(persistenceController.getMetrics()).toStrictEqual({ writes: 1, skippedWrites: 1 });
+      unmount();
+    });
+
+    it('should skip writing the snapshot read from the storage', async () => {
+      const envelope = wrapSnapshot({ profile: { name: '', age: 0 }, count: 3 }, 0);
+      memory.items.set('persistentStore', envelope);
+      const { store, persistenceController, unmount } = await mount(memory.storage);
+
+      store.rename('John');
+      store.rename('');
+      await persistenceController.flush();
+
+      expect(persistenceController.getMetrics()).toStrictEqual({ writes: 0, skippedWrites: 1 });
+      expect(memory.items.get('persistentStore')).toStrictEqual(envelope);
+      unmount();
+    });
+  });
+
+  describe('storage changes', () => {
+    /** Returns a view of the storage for every tab, telling the other tabs about the writes. */
+    const createTabs = (count: number) => {
+      const listeners = Array.from({ length: count }, () => new Map<string, () => void>());
+      return listeners.map(
+        (own): StorageOptions => ({
+          ...memory.storage,
+          setItem: async (key, value) => {
+            await memory.storage.setItem(key, value);
+            listeners.filter((other) => other !== own).forEach((other) => other.get(key)?.());
+          },
+          subscribe: (key, listener) => {
+            own.set(key, listener);
+            return () => own.delete(key);
+          },
+        })
+      );
+    };
+
+    it('should keep the changes that are not written yet when another tab writes', async () => {
+      const [firstStorage, secondStorage] = createTabs(2);
+      const first = await mount(firstStorage, { storageChangeStrategy: 'merge' });
+      const second = await mount(secondStorage, {
+        storageChangeStrategy: 'merge',
+        writeDelay: 1000,
+      });
+
+      second.store.rename('John');
+      first.store.increment();
+      await first.persistenceController.flush();
+
+      await vi.waitFor(() => expect(second.store.count).toBe(1));
+      expect(second.store.profile.name).toBe('John');
+
+      await second.persistenceController.flush();
+      expect(unwrapSnapshot(memory.items.get('persistentStore')).data).toMatchObject({
+        profile: { name: 'John' },
+        count: 1,
+      });
+      first.unmount();
+      second.unmount();
+    });
+  });
+
+  describe('app background', () => {
+    it('should flush the pending writes', async () => {
+      const { store, unmount } = await mount(memory.storage, { writeDelay: 1000 });
+
+      store.increment();
+      backgroundListeners.forEach((listener) => listener());
+
+      await vi.waitFor(() => expect(memory.items.has('persistentStore')).toBe(true));
+      unmount();
+    });
+
+    it('should not flush the pending writes while the writes are paused', async () => {
+      const { store, persistenceController, unmount } = await mount(memory.storage);
+
+      persistenceController.pause();
+      store.increment();
+      backgroundListeners.forEach((listener) => listener());
+      await new Promise((resolve) => setTimeout(resolve, 20));
+
+      expect(memory.items.has('persistentStore')).toBe(false);
+      persistenceController.resume();
+      await persistenceController.flush();
+      expect(memory.items.has('persistentStore')).toBe(true);
+      unmount();
+    });
+
+    it('should not flush the pending writes on unmount while the writes are paused', async () => {
+      const { store, persistenceController, unmount } = await mount(memory.storage);
+
+      persistenceController.pause();
+      store.increment();
+      unmount();
+      await new Promise((resolve) => setTimeout(resolve, 20));
+
+      expect(memory.items.has('persistentStore')).toBe(false);
+      persistenceController.resume();
+    });
+  });
+
+  describe('sync', () => {
+    it('should keep the changes that are not written yet when another tab writes', async () => {
+      const first = await mount(memory.storage, { sync: true });
+      const second = await mount(memory.storage, { sync: true, writeDelay: 1000 });
+
+      second.store.rename('John');
+      first.store.increment();
+      await first.persistenceController.flush();
+
+      await vi.waitFor(() => expect(second.store.count).toBe(1));
+      expect(second.store.profile.name).toBe('John');
+
+      await second.persistenceController.flush();
+      expect(unwrapSnapshot(memory.items.get('persistentStore')).data).toMatchObject({
+        profile: { name: 'John' },
+        count: 1,
+      });
+      first.unmount();
+      second.unmount();
+    });
+
+    it('should only elect a leader among the tabs of the same version', async () => {
+      const { unmount } = await mount(memory.storage, {
+        version: 2,
+        sync: true,
+        leaderElection: true,
+      });
+
+      expect(createLeaderElection).toHaveBeenCalledWith(
+        'mst-persistent-store:persistentStore:leader:v2',
+        undefined
+      );
+      unmount();
+    });
+  });
+});
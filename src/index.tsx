@@ -1,18 +1,108 @@
-import { IAnyModelType, Instance, onSnapshot, SnapshotIn } from 'mobx-state-tree';
-import React, { createContext, PropsWithChildren, useContext } from 'react';
+import {
+  applySnapshot,
+  getSnapshot,
+  IAnyModelType,
+  IJsonPatch,
+  Instance,
+  onPatch,
+  onSnapshot,
+  SnapshotIn,
+} from 'mobx-state-tree';
+import React, {
+  createContext,
+  PropsWithChildren,
+  ReactNode,
+  useContext,
+  useSyncExternalStore,
+} from 'react';
 import useAsyncEffect from 'use-async-effect';
+import jsonCodec from './codec/json-codec';
+import createHydrationStateStore from './hydration/create-hydration-state-store';
 import hydrateStore from './hydration/hydrate-store';
-import { PartialDeep } from './types/partial-deep';
+import {
+  HydrationReport,
+  HydrationStrategy,
+  RepairResolver,
+  StorageChangeStrategy,
+} from './hydration/types';
+import migrateSnapshot, { NewerVersionError } from './migration/migrate-snapshot';
+import { Migrations, PersistedSnapshot } from './migration/types';
+import { applyPatches } from './persistence/apply-patches';
+import { transformIn, transformOut } from './persistence/apply-transforms';
+import createJournal, { Journal } from './persistence/create-journal';
+import createPartitioner from './persistence/create-partitioner';
+import createSnapshotFilter from './persistence/create-snapshot-filter';
+import createSnapshotWriter from './persistence/create-snapshot-writer';
+import createWriteDelayResolver from './persistence/create-write-delay-resolver';
+import { unwrapSnapshot, wrapSnapshot } from './persistence/envelope';
+import createTransform from './persistence/create-transform';
+import toPersistedPatch from './persistence/to-persisted-patch';
+import {
+  JournalOptions,
+  PersistenceController,
+  PersistenceMetrics,
+  Transform,
+} from './persistence/types';
+import createQuarantine from './quarantine/create-quarantine';
+import { QuarantineEntry, QuarantineOptions } from './quarantine/types';
+import chunkedStorage from './storage/chunked-storage';
+import compressedStorage from './storage/compressed-storage';
+import { CorruptedDataError } from './storage/corrupted-data-error';
+import encryptedStorage, { DecryptionError } from './storage/encrypted-storage';
+import { StorageOptions } from './storage/types';
+import createLeaderElection from './sync/create-leader-election';
+import createSyncChannel from './sync/create-sync-channel';
+import { LeaderElection, LeaderElectionOptions, SyncChannel, SyncMessage } from './sync/types';
 import createLogger from './utils/create-logger';
-import { debounce } from './utils/debounce';
 import deepObjectOverride from './utils/deep-object-override';
 import isDev from './utils/is-dev';
+import onAppBackground from './utils/on-app-background';
+import { PathSelection } from './utils/path-selection';
 
-export interface StorageOptions {
-  setItem: (key: string, value: unknown) => Promise<void> | void;
-  getItem: (key: string) => Promise<unknown | null> | unknown | null;
-  removeItem: (key: string) => Promise<void> | void;
-}
+export type { Codec } from './codec/types';
+export type {
+  HydrationReport,
+  HydrationState,
+  HydrationStatus,
+  HydrationStrategy,
+  Repair,
+  RepairAction,
+  RepairResolver,
+  RepairResolverContext,
+  StorageChangeStrategy,
+} from './hydration/types';
+export type { Migration, Migrations } from './migration/types';
+export type {
+  JournalOptions,
+  PersistedJournal,
+  PersistenceController,
+  PersistenceMetrics,
+  Transform,
+} from './persistence/types';
+export type { QuarantineEntry, QuarantineOptions } from './quarantine/types';
+export type { LeaderElectionOptions } from './sync/types';
+export type {
+  ChunkedStorageOptions,
+  ChunkManifest,
+  CompressedStorageOptions,
+  Compressor,
+  EncryptedStorageOptions,
+  EncryptedValue,
+  EncryptionKey,
+  KeyProvider,
+  StorageOptions,
+} from './storage/types';
+export {
+  chunkedStorage,
+  compressedStorage,
+  createQuarantine,
+  CorruptedDataError,
+  createTransform,
+  DecryptionError,
+  encryptedStorage,
+  jsonCodec,
+  NewerVersionError,
+};
 
 export interface PersistentStoreOptions<T extends IAnyModelType = IAnyModelType> {
   /**
@@ -27,6 +117,29 @@ export interface PersistentStoreOptions<T extends IAnyModelType = IAnyModelType>
    * the debounce delay. default is 1500 (ms)
    */
   writeDelay: number;
+  /**
+   * The maximum time a write can be delayed while the store keeps changing, ie. with
+   * a timer in the store. default is none.
+   */
+  maxWait?: number;
+  /**
+   * Write delays for the changes at specific paths, keyed by JSON pointer pattern,
+   * overriding `writeDelay`. ie. `{ '/auth': 0 }` writes the changes of `auth`
+   * immediately. When a change touches multiple paths, the shortest delay is used.
+   */
+  writeDelays?: Record<string, number>;
+  /**
+   * The number of times a failed write to the storage is retried, with an exponential
+   * backoff starting at `writeRetryDelay`. default is 3.
+   */
+  writeRetries: number;
+  /** The delay before the first retry of a failed write. default is 1000 (ms). */
+  writeRetryDelay: number;
+  /**
+   * Callback function when a write to the storage fails after all retries.
+   * takes the error and the storage key that failed to be written as parameter.
+   */
+  onWriteError?: (error: unknown, storageKey: string) => void;
   /**
    * Whether to enable logging. By default, logging is enabled in
    * development mode only.
@@ -39,9 +152,102 @@ export interface PersistentStoreOptions<T extends IAnyModelType = IAnyModelType>
   devtool: boolean;
   /**
    * Callback function after the store is hydrated.
-   * takes the store instance as parameter.
+   * takes the store instance and the hydration report as parameter.
+   * the report is undefined if there was nothing to hydrate from the storage.
+   */
+  onHydrate?: (store: Instance<T>, report?: HydrationReport) => void;
+  /**
+   * The schema version of the store. It is persisted alongside the snapshot and
+   * should be bumped whenever the store model changes in an incompatible way.
+   * default is 0, which is also the version of snapshots persisted without one.
+   */
+  version: number;
+  /**
+   * Migrations to run against the persisted snapshot before hydration, keyed by
+   * the version they migrate the snapshot to. If a migration throws, the persisted
+   * data is thrown away.
+   */
+  migrations?: Migrations;
+  /**
+   * How invalid persisted data is handled during hydration. `strict` discards the
+   * whole persisted snapshot on any validation error, `repair` repairs the invalid
+   * paths individually and `discard-invalid-subtrees` replaces any invalid top-level
+   * key with its value from the initial snapshot. default is `repair`.
+   */
+  hydrationStrategy: HydrationStrategy;
+  /**
+   * Hydration strategies for specific top-level keys of the store, overriding
+   * `hydrationStrategy` for that key.
+   */
+  hydrationStrategyOverrides?: Partial<Record<keyof SnapshotIn<T>, HydrationStrategy>>;
+  /**
+   * Custom resolvers to repair invalid paths with, keyed by JSON pointer pattern
+   * and/or MST type. They are tried in order before the built-in repair logic.
+   */
+  repairResolvers?: RepairResolver[];
+  /**
+   * Whether to move the persisted data that failed to hydrate to a timestamped
+   * backup key instead of deleting it. Pass an object to configure how many
+   * quarantined payloads are kept. default is false.
+   */
+  quarantine: boolean | Partial<QuarantineOptions>;
+  /**
+   * Callback function when the persisted data fails to hydrate or is corrupted and is thrown
+   * away, or can not be decrypted or was written by a newer version and is kept. takes the
+   * error and the quarantine entry
+   * (if quarantined) as parameter.
+   */
+  onError?: (error: unknown, quarantined?: QuarantineEntry) => void;
+  /**
+   * Whether `usePersistentStore` should suspend until the store is hydrated, to be
+   * used with `<Suspense>` boundaries. default is false.
+   */
+  suspense: boolean;
+  /**
+   * Part of the store that will be persisted, everything else always comes from the
+   * initial snapshot. Either a deep partial of the snapshot, where every key present
+   * is persisted, or a list of JSON pointer patterns. default is the whole store.
    */
-  onHydrate?: (store: Instance<T>) => void;
+  allowList?: PathSelection<SnapshotIn<T>>;
+  /**
+   * Transforms to run on subtrees of the snapshot, in order, before it is written to
+   * the storage, and in reverse order after it is read back. See `createTransform`.
+   */
+  transforms?: Transform[];
+  /**
+   * Subtrees of the store to persist under their own storage keys, keyed by JSON pointer.
+   * Each partition is only written when its subtree changes, so large subtrees are not
+   * rewritten on every change elsewhere. Everything else is persisted under `storageKey`.
+   */
+  partitions?: Record<string, string>;
+  /**
+   * Whether to persist the patches of the store to an append-only journal, instead of
+   * writing the whole snapshot on every change. The journal is compacted into the
+   * snapshot periodically. Pass an object to configure how often. Can not be used with
+   * `partitions`. default is false.
+   */
+  journal: boolean | Partial<JournalOptions>;
+  /**
+   * Whether to sync the store with the other tabs of the same origin using the same
+   * `storageKey`. Every write is sent to the other tabs over BroadcastChannel, or the
+   * `storage` event of localStorage where it is not available, and applied to their
+   * stores without writing it again. Only available on the web. default is false.
+   */
+  sync: boolean;
+  /**
+   * Whether the tabs elect a leader, which alone writes to the storage. The other tabs
+   * forward their changes to the leader instead of writing them. When the leader is
+   * closed, another tab takes over. Pass an object to configure the heartbeat used where
+   * the Web Locks API is not available. Requires `sync`. default is false.
+   */
+  leaderElection: boolean | Partial<LeaderElectionOptions>;
+  /**
+   * How the store reacts when the persisted data is changed outside of it, ie. by another
+   * tab or a dev tool. Only works with storages implementing `subscribe`, like the default
+   * storage on the web. `rehydrate` hydrates the store from the storage again, `merge`
+   * hydrates the persisted paths only and keeps the rest of the store. default is `ignore`.
+   */
+  storageChangeStrategy: StorageChangeStrategy;
 }
 
 const isDevelopmentMode = isDev();
@@ -49,8 +255,18 @@ const isDevelopmentMode = isDev();
 const defaultOptions: PersistentStoreOptions = {
   storageKey: 'persistentStore',
   writeDelay: 1500,
+  writeRetries: 3,
+  writeRetryDelay: 1000,
   logging: isDevelopmentMode,
   devtool: isDevelopmentMode,
+  version: 0,
+  hydrationStrategy: 'repair',
+  quarantine: false,
+  journal: false,
+  sync: false,
+  leaderElection: false,
+  storageChangeStrategy: 'ignore',
+  suspense: false,
 };
 
 const createPersistentStore = <T extends IAnyModelType>(
@@ -84,54 +300,837 @@ const createPersistentStore = <T extends IAnyModelType>(
   storage: StorageOptions,
   /** Initial Store Value */
   init: SnapshotIn<T>,
-  /** Part of the store that will not be persisted. */
-  disallowList?: PartialDeep<SnapshotIn<T>>,
+  /**
+   * Part of the store that will not be persisted. Either a deep partial of the snapshot,
+   * whose values are hydrated instead, or a list of JSON pointer patterns.
+   */
+  disallowList?: PathSelection<SnapshotIn<T>>,
   /** Various options to change store behavior. */
   options?: Partial<PersistentStoreOptions<T>>
 ) => {
-  const { storageKey, writeDelay, devtool, logging, onHydrate } = options
-    ? { ...defaultOptions, ...options }
-    : defaultOptions;
-  const initStore = disallowList ? deepObjectOverride(init, disallowList) : init;
+  const {
+    storageKey,
+    writeDelay,
+    maxWait,
+    writeDelays,
+    writeRetries,
+    writeRetryDelay,
+    onWriteError,
+    devtool,
+    logging,
+    onHydrate,
+    version,
+    migrations,
+    hydrationStrategy,
+    hydrationStrategyOverrides,
+    repairResolvers,
+    quarantine,
+    onError,
+    suspense,
+    allowList,
+    transforms = [],
+    partitions,
+    journal,
+    sync,
+    leaderElection,
+    storageChangeStrategy,
+  } = options ? { ...defaultOptions, ...options } : defaultOptions;
+  const initStore =
+    disallowList && !Array.isArray(disallowList) ? deepObjectOverride(init, disallowList) : init;
+  const snapshotFilter = createSnapshotFilter({ init: initStore, allowList, disallowList });
 
   const logger = createLogger(logging);
 
+  const partitioner = createPartitioner(storageKey, partitions);
+
+  if (journal && partitions) {
+    throw new Error('The journal can not be used with partitions.');
+  }
+
+  if (leaderElection && !sync) {
+    throw new Error('The leader election can not be used without sync.');
+  }
+
+  const journalKey = `${storageKey}:journal`;
+  const patchJournal = journal
+    ? createJournal({ snapshotFilter, transforms }, journal === true ? undefined : journal)
+    : null;
+  // Every key the store is persisted under.
+  const persistedKeys = patchJournal ? [...partitioner.keys, journalKey] : partitioner.keys;
+
+  // Every storage key has its own quarantine, so each payload can be restored to its key.
+  const quarantineStores = quarantine
+    ? persistedKeys.map((key) =>
+        createQuarantine(storage, key, quarantine === true ? undefined : quarantine)
+      )
+    : null;
+
   // Store Contest and Value
   const PersistentStoreContext = createContext<Instance<T> | null>(null);
   const mstStore: Instance<T> = store.create(initStore);
 
-  const PersistentStoreProvider: React.FC<PropsWithChildren<object>> = ({ children }) => {
-    // Effects will only run on client side.
-    useAsyncEffect(
-      async (isMounted) => {
-        const data = await storage.getItem(storageKey) as SnapshotIn<T>;
+  const hydrationState = createHydrationStateStore();
+  const hydrateOptions = {
+    strategy: hydrationStrategy,
+    strategyOverrides: hydrationStrategyOverrides,
+    resolvers: repairResolvers,
+  };
+
+  /** Returns the part of the snapshot persisted under the key, as it is written. */
+  const toStorage = (snapshot: unknown, key: string) =>
+    transformIn(
+      partitioner.part(snapshotFilter.toStorage(snapshot as PersistedSnapshot), key),
+      transforms
+    );
+
+  // The serializations of the snapshots last persisted under every key, to skip writing them
+  // again. They are compared as is, as a collision of a checksum would skip a change.
+  const persistedSerializations = new Map<string, string | undefined>();
+  const metrics: PersistenceMetrics = { writes: 0, skippedWrites: 0 };
 
-        if (data && isMounted()) {
+  /** Writes the part of the snapshot under the key, unless it is already persisted. */
+  const writeSnapshot = async (snapshot: unknown, key: string) => {
+    const part = toStorage(snapshot, key);
+    const serialized = jsonCodec.encode(part);
+
+    if (persistedSerializations.has(key) && persistedSerializations.get(key) === serialized) {
+      metrics.skippedWrites++;
+      logger(`Snapshot (${key}) is unchanged, skipped writes: ${metrics.skippedWrites}`);
+      return;
+    }
+
+    logger(`Saving Snapshot to Storage (${key})`);
+    await storage.setItem(key, wrapSnapshot(part, version));
+    persistedSerializations.set(key, serialized);
+    metrics.writes++;
+  };
+
+  /** Writes the journal, compacting it into the snapshot first when needed. */
+  const writeJournal = async (journal: Journal) => {
+    if (journal.needsCompaction()) {
+      logger('Compacting Journal into Snapshot');
+      const count = journal.size();
+      const envelope = wrapSnapshot(toStorage(getSnapshot(mstStore), storageKey), version);
+      await storage.setItem(storageKey, envelope);
+      journal.compact(envelope.checksum, count);
+    }
+    logger('Saving Journal to Storage');
+    await storage.setItem(journalKey, journal.toStorage());
+    metrics.writes++;
+  };
+
+  // The channel to the other tabs, open while the provider is mounted with `sync`.
+  let syncChannel: SyncChannel | null = null;
+  // The leader election, open while the provider is mounted with `leaderElection`.
+  let election: LeaderElection | null = null;
+  // Whether a snapshot that is already persisted is being applied, ie. of another tab.
+  let applyingPersistedSnapshot = false;
+  // The persisted patches of this tab, not yet sent to the other tabs.
+  let unsentPatches: IJsonPatch[] = [];
+  // The persisted patches of this tab, not yet written. Only recorded while subscribed to
+  // the storage, to keep them when the storage is changed outside of the store.
+  let unwrittenPatches: IJsonPatch[] = [];
+
+  /**
+   * Returns the patch of a change of the store as it applies to the persisted snapshot. The
+   * removal of a parent of persisted paths can not be expressed, so it replaces it all instead.
+   */
+  const toStoragePatch = (patch: IJsonPatch): IJsonPatch | null => {
+    const getStoreSnapshot = () => getSnapshot(mstStore);
+    const persisted = toPersistedPatch(patch, getStoreSnapshot, snapshotFilter);
+    if (!persisted && patch.op === 'remove') {
+      const snapshot = snapshotFilter.toStorage(getStoreSnapshot() as PersistedSnapshot);
+      return { op: 'replace', path: '', value: snapshot };
+    }
+    return persisted;
+  };
+
+  /** Sends the changes of this tab since the previous ones to the other tabs. */
+  const postChanges = () => {
+    if (!syncChannel) {
+      return;
+    }
+    syncChannel.post({
+      type: 'changes',
+      version,
+      snapshot: snapshotFilter.toStorage(getSnapshot(mstStore) as PersistedSnapshot),
+      patches: unsentPatches,
+    });
+    unsentPatches = [];
+  };
+
+  // Every storage key is written by its own writer, so the partitions are debounced separately.
+  const snapshotWriters = new Map(
+    partitioner.keys.map((key) => [
+      key,
+      createSnapshotWriter({
+        write: async (snapshot) => {
+          // The changes of the followers are written by the leader.
+          if (election && !election.isLeader()) {
+            return;
+          }
+          await (patchJournal ? writeJournal(patchJournal) : writeSnapshot(snapshot, key));
+          postChanges();
+          // The snapshots of the writes in progress already have every change in them.
+          if (!writers.some((writer) => writer.hasPending())) {
+            unwrittenPatches = [];
+          }
+        },
+        writeDelay,
+        maxWait,
+        retries: writeRetries,
+        retryDelay: writeRetryDelay,
+        onError: (error) => {
+          logger(`Failed to write Snapshot to Storage (${key})`);
+          console.error(error);
+          onWriteError?.(error, key);
+        },
+      }),
+    ])
+  );
+  const writers = [...snapshotWriters.values()];
+
+  const resolveWriteDelay = createWriteDelayResolver(writeDelay, writeDelays);
+
+  /** Schedules the writes of the parts of the snapshot that changed since the previous one. */
+  const scheduleWrites = (previous: unknown, snapshot: unknown, delay?: number) => {
+    partitioner
+      .changedKeys(previous, snapshot)
+      .forEach((key) => snapshotWriters.get(key)!.schedule(snapshot, delay));
+  };
+
+  // Whether the writes are paused with the persistence controller.
+  let writesPaused = false;
+
+  const persistenceController: PersistenceController = {
+    flush: async () => {
+      await Promise.all(writers.map((writer) => writer.flush()));
+    },
+    pause: () => {
+      logger('Pausing writes to Storage');
+      writesPaused = true;
+      writers.forEach((writer) => writer.pause());
+    },
+    resume: () => {
+      logger('Resuming writes to Storage');
+      writesPaused = false;
+      writers.forEach((writer) => writer.resume());
+    },
+    clear: async () => {
+      logger('Clearing Store and Storage');
+      writers.forEach((writer) => writer.cancel());
+      // Wait for the writes in progress, so they do not land after the removal.
+      await persistenceController.flush();
+      await Promise.all(persistedKeys.map((key) => storage.removeItem(key)));
+      persistedSerializations.clear();
+      patchJournal?.reset();
+      applySnapshot(mstStore, initStore);
+      // Resetting the store schedules a write of the initial snapshot, drop it.
+      writers.forEach((writer) => writer.cancel());
+      unwrittenPatches = [];
+      // The data that failed to hydrate is gone, so the changes can be persisted again.
+      await persistenceController.retryHydration();
+    },
+    retryHydration: async () => {
+      // There is nothing to retry before the first hydration, or once the changes are persisted.
+      if (!hydration || (await hydration)) {
+        return !!hydration;
+      }
+      logger('Retrying to hydrate Store from Storage');
+      hydration = runHydration();
+      const persistable = await hydration;
+      if (persistable && mountedProviders > 0 && !stopPersisting) {
+        stopPersisting = startPersisting();
+      }
+      return persistable;
+    },
+    getMetrics: () => ({ ...metrics }),
+  };
+
+  /** Schedules the writes of the changes of the store. Returns a function to unsubscribe. */
+  const subscribeToChanges = () => {
+    if (patchJournal) {
+      return onPatch(mstStore, (patch) => {
+        if (applyingPersistedSnapshot) {
+          return;
+        }
+        logger('New Patch Available');
+        if (patchJournal.record(patch, () => getSnapshot(mstStore))) {
+          snapshotWriters.get(storageKey)!.schedule(null, resolveWriteDelay([patch.path]));
+        }
+      });
+    }
+
+    let previous = getSnapshot(mstStore);
+    // The paths changed since the previous snapshot, to resolve the write delay with.
+    let changedPaths: string[] = [];
+
+    const unsubscribePatches = writeDelays
+      ? onPatch(mstStore, (patch) => {
+          changedPaths.push(patch.path);
+        })
+      : null;
+
+    const unsubscribeSnapshots = onSnapshot(mstStore, (snapshot) => {
+      if (!applyingPersistedSnapshot) {
+        logger('New Snapshot Available');
+        scheduleWrites(previous, snapshot, resolveWriteDelay(changedPaths));
+      }
+      previous = snapshot;
+      changedPaths = [];
+    });
+
+    return () => {
+      unsubscribePatches?.();
+      unsubscribeSnapshots();
+    };
+  };
+
+  /**
+   * Applies the changes written by another tab to the store, without writing them again.
+   * The pending changes of this tab are kept, and written on top of them.
+   */
+  const applyRemoteChanges = (snapshot: PersistedSnapshot, patches: IJsonPatch[]) => {
+    logger(`Applying ${patches.length} Patches from another tab`);
+    const base = getSnapshot(mstStore) as PersistedSnapshot;
+    applyingPersistedSnapshot = true;
+    try {
+      // The changes of a follower are already part of the snapshot written by the leader, so
+      // it applies the snapshot instead of applying its own patches again.
+      const { result, skipped } = election
+        ? { result: snapshot, skipped: 0 }
+        : applyPatches(snapshotFilter.toStorage(base), patches);
+      applySnapshot(mstStore, snapshotFilter.fromStorage(skipped ? snapshot : result, base));
+    } catch (error) {
+      logger('Failed to apply Patches from another tab');
+      console.error(error);
+    } finally {
+      applyingPersistedSnapshot = false;
+    }
+    // The storage was written by the other tab, so the next change must be written in full.
+    persistedSerializations.clear();
+    patchJournal?.reset();
+    // The pending writes would overwrite the changes of the other tab with the stale snapshot.
+    const latest = getSnapshot(mstStore);
+    writers.filter((writer) => writer.isDirty()).forEach((writer) => writer.schedule(latest));
+  };
+
+  /** Applies the patches forwarded by a follower to the store, so they are written. */
+  const applyForwardedPatches = (patches: IJsonPatch[]) => {
+    logger(`Applying ${patches.length} Patches from a follower`);
+    const base = getSnapshot(mstStore) as PersistedSnapshot;
+    try {
+      const { result } = applyPatches(snapshotFilter.toStorage(base), patches);
+      applySnapshot(mstStore, snapshotFilter.fromStorage(result, base));
+    } catch (error) {
+      logger('Failed to apply Patches from a follower');
+      console.error(error);
+    }
+  };
+
+  const onSyncMessage = (message: SyncMessage) => {
+    if (message.version !== version) {
+      logger(`Ignoring message of version ${message.version} from another tab`);
+    } else if (message.type === 'changes') {
+      applyRemoteChanges(message.snapshot, message.patches);
+    } else if (election?.isLeader()) {
+      applyForwardedPatches(message.patches);
+    }
+  };
+
+  /**
+   * Collects the persisted patches of the changes of the store, to send them with the next write.
+   * A follower forwards them to the leader instead.
+   */
+  const collectChanges = (channel: SyncChannel) =>
+    onPatch(mstStore, (patch) => {
+      const persisted = applyingPersistedSnapshot ? null : toStoragePatch(patch);
+      if (!persisted) {
+        return;
+      }
+      if (election && !election.isLeader()) {
+        channel.post({ type: 'patches', version, patches: [persisted] });
+      } else {
+        unsentPatches.push(persisted);
+      }
+    });
+
+  /**
+   * Opens the channel to the other tabs, and joins the leader election when enabled.
+   * Returns a function to close them.
+   */
+  const connectSync = () => {
+    const channel = createSyncChannel(`mst-persistent-store:${storageKey}`);
+    const unsubscribe = channel.subscribe(onSyncMessage);
+    syncChannel = channel;
+
+    let leader: LeaderElection | null = null;
+    let unsubscribeLeader: (() => void) | null = null;
+    const unsubscribeChanges = collectChanges(channel);
+
+    if (leaderElection) {
+      // The leader ignores the changes of another version, so only the tabs of the same
+      // version elect each other.
+      leader = createLeaderElection(
+        `mst-persistent-store:${storageKey}:leader:v${version}`,
+        leaderElection === true ? undefined : leaderElection
+      );
+      election = leader;
+      unsubscribeLeader = leader.subscribe((isLeader) => {
+        if (!isLeader) {
+          return;
+        }
+        logger('This tab is the leader now, writing the Snapshot');
+        // The previous leader might have been closed before writing the latest changes.
+        persistedSerializations.clear();
+        patchJournal?.reset();
+        scheduleWrites(undefined, getSnapshot(mstStore));
+      });
+    }
+
+    return () => {
+      unsubscribe();
+      unsubscribeLeader?.();
+      unsubscribeChanges();
+      channel.close();
+      leader?.close();
+      if (syncChannel === channel) {
+        syncChannel = null;
+        unsentPatches = [];
+      }
+      if (election === leader) {
+        election = null;
+      }
+    };
+  };
+
+  const flushPendingWrites = () =>
+    // The failures are reported by the writers.
+    persistenceController.flush().catch(() => undefined);
+
+  /** Reads the items of every persisted key from the storage, and the journal when enabled. */
+  const readItems = async () => {
+    const journal = readJournal();
+    // The journal is settled before a failure is thrown, so the keys are not read concurrently.
+    const settled = journal.then(
+      () => undefined,
+      () => undefined
+    );
+    const items = await Promise.all(partitioner.keys.map((key) => storage.getItem(key))).catch(
+      async (error) => {
+        await settled;
+        throw error;
+      }
+    );
+    return [items, await journal] as const;
+  };
+
+  /**
+   * Reads the journal when enabled. The journal is optional, so a corrupted one is thrown
+   * away, or moved to the quarantine when enabled, without the snapshot.
+   */
+  const readJournal = async () => {
+    if (!patchJournal) {
+      return null;
+    }
+    try {
+      return await storage.getItem(journalKey);
+    } catch (error) {
+      if (!(error instanceof CorruptedDataError)) {
+        throw error;
+      }
+      logger('Journal is corrupted. Throwing it away.');
+      console.error(error);
+      let quarantined: QuarantineEntry | undefined;
+      if (quarantineStores) {
+        try {
+          quarantined = await quarantineStores[partitioner.keys.length].add(error.payload, error);
+          logger(`Moved Journal from storage to ${quarantined.key}`);
+        } catch (quarantineError) {
+          logger('Failed to quarantine Journal from storage.');
+          console.error(quarantineError);
+        }
+      }
+      await storage.removeItem(journalKey);
+      onError?.(error, quarantined);
+      return null;
+    }
+  };
+
+  /** Returns the items read from the storage in the order of the persisted keys. */
+  const toPayloads = (items: readonly unknown[], journalItem: unknown) =>
+    patchJournal ? [...items, journalItem] : [...items];
+
+  /** Reads the items of every persisted key as they are, the corrupted ones included. */
+  const readPayloads = () =>
+    Promise.all(
+      persistedKeys.map(async (key) => {
+        try {
+          return await storage.getItem(key);
+        } catch (error) {
+          if (error instanceof CorruptedDataError) {
+            return error.payload;
+          }
+          throw error;
+        }
+      })
+    );
+
+  /**
+   * Joins the items read from the storage into the persisted snapshot, with the journal
+   * replayed on it, and migrates it to the current version. Throws if it can not be read.
+   * Returns the lowest version the parts were persisted with.
+   */
+  const readSnapshot = (items: unknown[], journalItem: unknown) => {
+    const parts: Record<string, PersistedSnapshot | undefined> = {};
+    const versions = new Map<string, number>();
+
+    partitioner.keys.forEach((key, index) => {
+      if (!items[index]) {
+        return;
+      }
+
+      const { v, savedAt, libVersion, checksum, data } = unwrapSnapshot(items[index]);
+
+      if (savedAt) {
+        logger(
+          `Found Snapshot (${key}) saved at ${new Date(savedAt).toISOString()} by v${libVersion}`
+        );
+      } else {
+        logger(`Found Snapshot (${key}) saved without metadata`);
+      }
+
+      let persisted = data as PersistedSnapshot;
+
+      if (patchJournal) {
+        const { result, replayed, skipped } = patchJournal.replay(persisted, journalItem, checksum);
+        if (replayed || skipped) {
+          logger(`Replayed ${replayed} patches from Journal, skipped ${skipped}`);
+        }
+        persisted = result;
+      }
+
+      parts[key] = transformOut(persisted, transforms);
+      versions.set(key, v);
+
+      if (v === version) {
+        persistedSerializations.set(key, jsonCodec.encode(data));
+      }
+    });
+
+    const v = Math.min(...versions.values());
+
+    if (new Set(versions.values()).size > 1) {
+      // The keys are rewritten separately after a migration, so some of them might not be
+      // written yet, ie. when the app was killed in between.
+      logger(`Migrating the Partitions of the Snapshot from their versions to ${version}`);
+      versions.forEach((partVersion, key) => {
+        parts[key] = migrateSnapshot(parts[key]!, partVersion, version, migrations);
+      });
+      return { snapshot: partitioner.join(parts), v };
+    }
+
+    if (v !== version) {
+      logger(`Migrating Snapshot from version ${v} to ${version}`);
+    }
+
+    return { snapshot: migrateSnapshot(partitioner.join(parts), v, version, migrations), v };
+  };
+
+  let hydration: Promise<boolean> | null = null;
+
+  /** Hydrates the store from the storage. Resolves to whether the changes can be persisted. */
+  const hydrateFromStorage = async (): Promise<boolean> => {
+    let items: (unknown | null)[] = [];
+    let journalItem: unknown = null;
+    let report: HydrationReport | undefined;
+    let failure: { error: unknown } | undefined;
+
+    /**
+     * Throws away the persisted data that failed to hydrate, or moves it to the
+     * quarantine when enabled. The payloads are in the order of the persisted keys.
+     */
+    /**
+     * Keeps the persisted data that might still be valid, so it is not overwritten, and does
+     * not persist the changes. Returns whether the changes can be persisted.
+     */
+    const keep = (error: unknown) => {
+      logger('Failed to read data from storage. Changes will not be persisted.');
+      console.error(error);
+      hydrationState.setState({ status: 'failed', error });
+      if (error instanceof DecryptionError || error instanceof NewerVersionError) {
+        // The app decides whether to wait for the key or an update, or to clear the store.
+        onError?.(error);
+      }
+      return false;
+    };
+
+    const discard = async (error: unknown, payloads: (unknown | null)[]) => {
+      logger(
+        quarantineStores
+          ? 'Failed to fully or partially hydrate store. Quarantining data from storage.'
+          : 'Failed to fully or partially hydrate store. Throwing away data from storage.'
+      );
+      logger('Check the error for more details.');
+      console.error(error);
+
+      let quarantined: QuarantineEntry | undefined;
+
+      if (quarantineStores) {
+        for (const [index, payload] of payloads.entries()) {
+          if (!payload) {
+            continue;
+          }
           try {
-            logger('Hydrating Store from Storage');
-            const fullHydration = hydrateStore(
-              store,
-              mstStore,
-              deepObjectOverride(data, disallowList)
-            );
-            if (fullHydration) {
-              logger('Successfully hydrated store from storage');
-            } else {
-              logger('WARNING! Partial hydration. Some data was not hydrated.');
-            }
-          } catch (error) {
-            logger('Failed to fully or partially hydrate store. Throwing away data from storage.');
-            logger('Check the error for more details.');
-            console.error(error);
-            await storage.removeItem(storageKey);
+            const entry = await quarantineStores[index].add(payload, error);
+            quarantined = quarantined ?? entry;
+            logger(`Moved data from storage to ${entry.key}`);
+          } catch (quarantineError) {
+            logger('Failed to quarantine data from storage.');
+            console.error(quarantineError);
           }
         }
+      }
+
+      await Promise.all(persistedKeys.map((key) => storage.removeItem(key)));
+      persistedSerializations.clear();
+      onError?.(error, quarantined);
+      failure = { error };
+    };
+
+    try {
+      [items, journalItem] = await readItems();
+    } catch (error) {
+      if (error instanceof CorruptedDataError) {
+        // The data can not be read anymore, so it is thrown away like the data that fails
+        // to hydrate.
+        await discard(error, await readPayloads());
+      } else {
+        // The key to decrypt the data might only be missing for now, ie. when the keychain is
+        // not ready yet.
+        return keep(error);
+      }
+    }
 
-        if (isMounted()) {
-          onHydrate?.(mstStore);
+    if (items.some(Boolean)) {
+      try {
+        const { snapshot, v } = readSnapshot(items, journalItem);
+
+        logger('Hydrating Store from Storage');
+        const filteredSnapshot = snapshotFilter.fromStorage(snapshot) as SnapshotIn<T>;
+        report = hydrateStore(store, mstStore, filteredSnapshot, hydrateOptions);
+        if (report.complete) {
+          logger('Successfully hydrated store from storage');
+        } else {
+          logger('WARNING! Partial hydration. Some data was not hydrated.');
+          report.repairs.forEach(({ path, action }) => logger(`Repaired ${path}: ${action}`));
+        }
+
+        // The journal only applies to the persisted snapshot as it is.
+        if (patchJournal && (v !== version || !report.complete)) {
+          patchJournal.reset();
         }
 
-        if (devtool) {
+        // Rewrite every key, so the partitions have the same version and none are missing.
+        if (v !== version || items.some((item) => !item) || patchJournal?.needsCompaction()) {
+          scheduleWrites(undefined, getSnapshot(mstStore));
+        }
+      } catch (error) {
+        if (error instanceof NewerVersionError) {
+          // The data was written by a newer version of the app, which can still read it.
+          return keep(error);
+        }
+        await discard(error, toPayloads(items, journalItem));
+      }
+    }
+
+    if (failure) {
+      hydrationState.setState({ status: 'failed', error: failure.error });
+    } else {
+      hydrationState.setState({
+        status: !report || report.complete ? 'hydrated' : 'partial',
+        report,
+      });
+    }
+    onHydrate?.(mstStore, report);
+
+    return true;
+  };
+
+  /** Hydrates the store, always settling the status, so the gates and suspense never hang. */
+  const runHydration = async (): Promise<boolean> => {
+    hydrationState.setState({ status: 'loading' });
+
+    try {
+      return await hydrateFromStorage();
+    } catch (error) {
+      // ie. `onError` threw, or the discarded data could not be removed from the storage.
+      logger('Failed to hydrate store. Changes will not be persisted.');
+      console.error(error);
+      hydrationState.setState({ status: 'failed', error });
+      return false;
+    }
+  };
+
+  /**
+   * Reads the persisted data again after it was changed outside of the store, and
+   * hydrates the store from it without writing it again. With `merge`, the paths that
+   * are not persisted keep their current values instead of the initial ones.
+   */
+  const reloadFromStorage = async () => {
+    logger('Reloading Snapshot from Storage');
+    // They are read again with the snapshot.
+    persistedSerializations.clear();
+    patchJournal?.reset();
+
+    try {
+      const [items, journalItem] = await readItems();
+
+      let next: PersistedSnapshot | null = null;
+      let v = version;
+
+      if (items.some(Boolean)) {
+        const persisted = readSnapshot(items, journalItem);
+        v = persisted.v;
+        // The changes of this tab that are not written yet are kept, and written on top.
+        const { result } = applyPatches(persisted.snapshot, unwrittenPatches);
+        next = snapshotFilter.fromStorage(
+          result,
+          storageChangeStrategy === 'merge' ? getSnapshot(mstStore) : undefined
+        );
+      } else if (storageChangeStrategy === 'rehydrate') {
+        // The persisted data was removed, ie. by clearing the store in another tab, so the
+        // pending changes are dropped with it.
+        writers.forEach((writer) => writer.cancel());
+        unwrittenPatches = [];
+        next = initStore;
+      }
+
+      if (!next) {
+        return;
+      }
+
+      applyingPersistedSnapshot = true;
+      try {
+        const report = hydrateStore(store, mstStore, next as SnapshotIn<T>, hydrateOptions);
+        if (!report.complete) {
+          logger('WARNING! Partial hydration. Some data was not hydrated.');
+          report.repairs.forEach(({ path, action }) => logger(`Repaired ${path}: ${action}`));
+        }
+        if (patchJournal && (v !== version || !report.complete)) {
+          patchJournal.reset();
+        }
+      } finally {
+        applyingPersistedSnapshot = false;
+      }
+      // The pending writes would overwrite the changed data with the stale snapshot.
+      const latest = getSnapshot(mstStore);
+      writers.filter((writer) => writer.isDirty()).forEach((writer) => writer.schedule(latest));
+    } catch (error) {
+      // The data might be in the middle of being written, it is reloaded on the next change.
+      logger('Failed to reload Snapshot from Storage');
+      console.error(error);
+    }
+  };
+
+  let reloading: Promise<void> | null = null;
+  let reloadPending = false;
+
+  /** Reloads the store, once more after the reload in progress if there is one. */
+  const reload = () => {
+    if (reloading) {
+      reloadPending = true;
+      return;
+    }
+    reloading = reloadFromStorage().then(() => {
+      reloading = null;
+      if (reloadPending) {
+        reloadPending = false;
+        reload();
+      }
+    });
+  };
+
+  /** Reloads the store when the storage is changed outside of it. Returns a function to unsubscribe. */
+  const subscribeToStorage = () => {
+    const unsubscribes = persistedKeys.map((key) =>
+      storage.subscribe?.(key, () => {
+        logger(`Storage (${key}) was changed outside of the store`);
+        reload();
+      })
+    );
+    const unsubscribePatches = onPatch(mstStore, (patch) => {
+      const persisted = applyingPersistedSnapshot ? null : toStoragePatch(patch);
+      if (persisted) {
+        unwrittenPatches.push(persisted);
+      }
+    });
+    return () => {
+      unsubscribes.forEach((unsubscribe) => unsubscribe?.());
+      unsubscribePatches();
+      unwrittenPatches = [];
+    };
+  };
+
+  /**
+   * Hydrates the store from the storage. The hydration runs only once per store, so
+   * every caller, ie. suspended consumers and remounted providers, share the same read.
+   * Resolves to whether the changes to the store can be persisted.
+   */
+  const hydrate = () => {
+    if (!hydration) {
+      hydration = runHydration();
+    }
+    return hydration;
+  };
+
+  // The number of mounted providers, and the function to stop persisting the changes while
+  // they are persisted. The changes are persisted once, for all the providers.
+  let mountedProviders = 0;
+  let stopPersisting: (() => void) | null = null;
+
+  /** Starts persisting the changes of the store. Returns a function to stop. */
+  const startPersisting = () => {
+    const unsubscribe = subscribeToChanges();
+    const disconnectSync = sync ? connectSync() : null;
+    const unsubscribeStorage = storageChangeStrategy === 'ignore' ? null : subscribeToStorage();
+    const removeBackgroundListener = onAppBackground(() => {
+      // The app paused the writes, ie. during a bulk import, so the changes might be partial.
+      if (writesPaused) {
+        logger('App is going to background, writes are paused.');
+        return;
+      }
+      logger('App is going to background, flushing pending writes.');
+      flushPendingWrites();
+    });
+
+    return () => {
+      unsubscribe();
+      unsubscribeStorage?.();
+      removeBackgroundListener();
+      // The app paused the writes, so the changes might be partial. They are written when the
+      // writes are resumed, ie. by another provider.
+      if (writesPaused) {
+        logger('Provider is getting unmounted, writes are paused.');
+        disconnectSync?.();
+        return;
+      }
+      // The pending changes would be lost otherwise, the other tabs are told about them too.
+      flushPendingWrites().then(() => disconnectSync?.());
+    };
+  };
+
+  const PersistentStoreProvider: React.FC<PropsWithChildren<object>> = ({ children }) => {
+    // Effects will only run on client side.
+    useAsyncEffect(
+      async (isMounted) => {
+        const persistable = await hydrate();
+
+        if (!isMounted()) {
+          return;
+        }
+
+        if (persistable && devtool) {
           try {
             logger('Dev env detected, trying to enable mobx-devtools-mst');
             const { default: makeInspectable } = await import('mobx-devtools-mst');
@@ -141,16 +1140,19 @@ const createPersistentStore = <T extends IAnyModelType>(
           }
         }
 
-        const saveSnapshot = debounce((snapshot) => {
-          logger('Saving Snapshot to Storage');
-
-          storage.setItem(storageKey, snapshot);
-        }, writeDelay);
+        // The changes are persisted once the hydration is retried when it failed.
+        mountedProviders++;
+        if (persistable && !stopPersisting) {
+          stopPersisting = startPersisting();
+        }
 
-        return onSnapshot(mstStore, (snapshot) => {
-          logger('New Snapshot Available');
-          saveSnapshot(snapshot);
-        });
+        return () => {
+          mountedProviders--;
+          if (mountedProviders === 0) {
+            stopPersisting?.();
+            stopPersisting = null;
+          }
+        };
       },
       (disposer) => {
         logger('PersistentStoreProvider is getting unmounted.');
@@ -172,10 +1174,43 @@ const createPersistentStore = <T extends IAnyModelType>(
     if (!persistentStore) {
       throw new Error('usePersistentStore must be used within a PersistentStoreProvider.');
     }
+    if (suspense) {
+      const { status } = hydrationState.getState();
+      if (status === 'idle' || status === 'loading') {
+        // The provider effect may not run before the suspended tree commits,
+        // so the hydration is started from here as well.
+        throw hydrate();
+      }
+    }
     return persistentStore;
   };
 
-  return [PersistentStoreProvider, usePersistentStore] as const;
+  const useHydrationStatus = () =>
+    useSyncExternalStore(
+      hydrationState.subscribe,
+      hydrationState.getState,
+      hydrationState.getState
+    );
+
+  /**
+   * Renders the fallback until the hydration has settled, to avoid rendering the
+   * initial snapshot before the persisted one.
+   */
+  const PersistGate: React.FC<PropsWithChildren<{ fallback?: ReactNode }>> = ({
+    fallback = null,
+    children,
+  }) => {
+    const { status } = useHydrationStatus();
+    return <>{status === 'idle' || status === 'loading' ? fallback : children}</>;
+  };
+
+  return [
+    PersistentStoreProvider,
+    usePersistentStore,
+    persistenceController,
+    useHydrationStatus,
+    PersistGate,
+  ] as const;
 };
 
 export default createPersistentStore;
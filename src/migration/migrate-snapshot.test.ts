@@ -0,0 +1,68 @@
+import { describe, expect, it, vi } from 'vitest';
+import migrateSnapshot, { NewerVersionError } from './migrate-snapshot';
+
+describe('migrateSnapshot', () => {
+  const snapshot = { firstName: 'John', lastName: 'Doe' };
+
+  it('should return the snapshot as is if the versions are the same', () => {
+    const migration = vi.fn();
+    const result = migrateSnapshot(snapshot, 1, 1, { 1: migration });
+
+    expect(result).toBe(snapshot);
+    expect(migration).not.toHaveBeenCalled();
+  });
+
+  it('should return the snapshot as is if there are no migrations', () => {
+    expect(migrateSnapshot(snapshot, 0, 2)).toBe(snapshot);
+  });
+
+  it('should run the pending migrations in ascending order', () => {
+    const calls: number[] = [];
+    const result = migrateSnapshot(snapshot, 1, 3, {
+      3: (fromVersion, { name, ...rest }) => {
+        calls.push(fromVersion);
+        return { ...rest, profile: { name } };
+      },
+      1: (fromVersion, data) => {
+        calls.push(fromVersion);
+        return data;
+      },
+      2: (fromVersion, { firstName, lastName, ...rest }) => {
+        calls.push(fromVersion);
+        return { ...rest, name: `${firstName} ${lastName}` };
+      },
+    });
+
+    expect(calls).toStrictEqual([1, 2]);
+    expect(result).toStrictEqual({ profile: { name: 'John Doe' } });
+  });
+
+  it('should not run migrations for versions newer than the target version', () => {
+    const migration = vi.fn();
+    migrateSnapshot(snapshot, 0, 1, { 1: (_, data) => data, 2: migration });
+
+    expect(migration).not.toHaveBeenCalled();
+  });
+
+  it('should pass the previous migrated version when versions are skipped', () => {
+    const migration = vi.fn((_: number, data) => data);
+    migrateSnapshot(snapshot, 0, 5, { 5: migration });
+
+    expect(migration).toHaveBeenCalledWith(0, snapshot);
+  });
+
+  it('should throw if the snapshot version is newer than the target version', () => {
+    expect(() => migrateSnapshot(snapshot, 2, 1)).toThrowError(NewerVersionError);
+    expect(() => migrateSnapshot(snapshot, 2, 1)).toThrowError(/newer than the store version/);
+  });
+
+  it('should propagate errors thrown by migrations', () => {
+    expect(() =>
+      migrateSnapshot(snapshot, 0, 1, {
+        1: () => {
+          throw new Error('Migration failed');
+        },
+      })
+    ).toThrowError('Migration failed');
+  });
+});
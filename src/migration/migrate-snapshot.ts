@@ -0,0 +1,51 @@
+import { Migrations, PersistedSnapshot } from './types';
+
+/**
+ * Thrown when the snapshot was written with a newer schema version than the store, ie. by
+ * a newer version of the app in another tab or before a downgrade. The store keeps the
+ * data, and does not persist the changes.
+ */
+export class NewerVersionError extends Error {
+  constructor(
+    readonly persistedVersion: number,
+    readonly storeVersion: number
+  ) {
+    super(
+      `Persisted snapshot version (${persistedVersion}) is newer than the store version (${storeVersion}).`
+    );
+    this.name = 'NewerVersionError';
+  }
+}
+
+/**
+ * Runs every migration registered for a version greater than `fromVersion` and lower than
+ * or equal to `toVersion` in ascending order. Throws if the snapshot was written with a
+ * newer schema version than the current one, as there is no way to migrate it down.
+ */
+const migrateSnapshot = (
+  snapshot: PersistedSnapshot,
+  fromVersion: number,
+  toVersion: number,
+  migrations: Migrations = {}
+): PersistedSnapshot => {
+  if (fromVersion > toVersion) {
+    throw new NewerVersionError(fromVersion, toVersion);
+  }
+
+  const versions = Object.keys(migrations)
+    .map(Number)
+    .filter((version) => version > fromVersion && version <= toVersion)
+    .sort((a, b) => a - b);
+
+  let currentVersion = fromVersion;
+  let migratedSnapshot = snapshot;
+
+  for (const version of versions) {
+    migratedSnapshot = migrations[version](currentVersion, migratedSnapshot);
+    currentVersion = version;
+  }
+
+  return migratedSnapshot;
+};
+
+export default migrateSnapshot;
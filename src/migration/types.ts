@@ -0,0 +1,17 @@
+/**
+ * A loosely typed snapshot as read back from the storage. Its shape depends on the
+ * schema version it was written with, so it can not be typed against the current model.
+ */
+export type PersistedSnapshot = Record<string, unknown>;
+
+/**
+ * A function that migrates a persisted snapshot from the previous schema version.
+ * Receives the version the snapshot is being migrated from and the snapshot itself and
+ * must return the snapshot in the shape of the version it is registered for.
+ */
+export type Migration = (fromVersion: number, snapshot: PersistedSnapshot) => PersistedSnapshot;
+
+/**
+ * Migrations keyed by the schema version they migrate the snapshot to.
+ */
+export type Migrations = Record<number, Migration>;
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { applyPatch, applyPatches } from './apply-patches';
+
+describe('applyPatch', () => {
+  const snapshot = {
+    user: { name: 'John Doe', 'a/b': 1 },
+    todos: [{ text: 'First' }, { text: 'Second' }],
+  };
+
+  it('should replace and add object properties', () => {
+    expect(
+      applyPatch(snapshot, { op: 'replace', path: '/user/name', value: 'Jane' })
+    ).toStrictEqual({ ...snapshot, user: { name: 'Jane', 'a/b': 1 } });
+    expect(applyPatch(snapshot, { op: 'add', path: '/user/a~1b', value: 2 })).toStrictEqual({
+      ...snapshot,
+      user: { name: 'John Doe', 'a/b': 2 },
+    });
+  });
+
+  it('should remove object properties', () => {
+    expect(applyPatch(snapshot, { op: 'remove', path: '/user/name' })).toStrictEqual({
+      ...snapshot,
+      user: { 'a/b': 1 },
+    });
+  });
+
+  it('should insert, replace and remove array items', () => {
+    const third = { text: 'Third' };
+
+    expect(applyPatch(snapshot, { op: 'add', path: '/todos/1', value: third })).toStrictEqual({
+      ...snapshot,
+      todos: [snapshot.todos[0], third, snapshot.todos[1]],
+    });
+    expect(applyPatch(snapshot, { op: 'add', path: '/todos/-', value: third })).toStrictEqual({
+      ...snapshot,
+      todos: [...snapshot.todos, third],
+    });
+    expect(applyPatch(snapshot, { op: 'replace', path: '/todos/0', value: third })).toStrictEqual({
+      ...snapshot,
+      todos: [third, snapshot.todos[1]],
+    });
+    expect(applyPatch(snapshot, { op: 'remove', path: '/todos/0' })).toStrictEqual({
+      ...snapshot,
+      todos: [snapshot.todos[1]],
+    });
+  });
+
+  it('should replace the root', () => {
+    expect(applyPatch(snapshot, { op: 'replace', path: '', value: { a: 1 } })).toStrictEqual({
+      a: 1,
+    });
+  });
+
+  it('should not mutate the target', () => {
+    const target = structuredClone(snapshot);
+
+    applyPatch(target, { op: 'replace', path: '/todos/0/text', value: 'Changed' });
+
+    expect(target).toStrictEqual(snapshot);
+  });
+
+  it('should throw when the path does not exist', () => {
+    expect(() => applyPatch(snapshot, { op: 'replace', path: '/missing/name', value: 1 })).toThrow(
+      'Path /missing/name does not exist.'
+    );
+    expect(() => applyPatch(snapshot, { op: 'remove', path: '/user/missing' })).toThrow(
+      'Path /user/missing does not exist.'
+    );
+    expect(() => applyPatch(snapshot, { op: 'replace', path: '/todos/5', value: 1 })).toThrow(
+      'Invalid array index in /todos/5.'
+    );
+  });
+});
+
+describe('applyPatches', () => {
+  it('should apply the patches in order and skip the failing ones', () => {
+    expect(
+      applyPatches({ count: 0 }, [
+        { op: 'replace', path: '/count', value: 1 },
+        { op: 'replace', path: '/missing/count', value: 2 },
+        { op: 'add', path: '/name', value: 'John' },
+      ])
+    ).toStrictEqual({ result: { count: 1, name: 'John' }, skipped: 1 });
+  });
+});
@@ -0,0 +1,88 @@
+import { IJsonPatch, unescapeJsonPath } from 'mobx-state-tree';
+import isObjectLike from '../utils/is-object-like';
+import { splitPath } from '../utils/match-path';
+
+const applyOperation = (
+  target: unknown,
+  segments: string[],
+  { op, path, value }: IJsonPatch
+): unknown => {
+  const [segment, ...rest] = segments;
+
+  if (Array.isArray(target)) {
+    const copy = [...target];
+    const index = segment === '-' ? target.length : Number(segment);
+    const exists = index < target.length;
+
+    if (!Number.isInteger(index) || index < 0 || index > target.length) {
+      throw new Error(`Invalid array index in ${path}.`);
+    }
+    if (rest.length > 0 || op !== 'add') {
+      if (!exists) {
+        throw new Error(`Path ${path} does not exist.`);
+      }
+    }
+
+    if (rest.length > 0) {
+      copy[index] = applyOperation(copy[index], rest, { op, path, value });
+    } else if (op === 'add') {
+      copy.splice(index, 0, value);
+    } else if (op === 'remove') {
+      copy.splice(index, 1);
+    } else {
+      copy[index] = value;
+    }
+    return copy;
+  }
+
+  if (isObjectLike(target)) {
+    const copy = { ...target };
+
+    if ((rest.length > 0 || op === 'remove') && !(segment in target)) {
+      throw new Error(`Path ${path} does not exist.`);
+    }
+
+    if (rest.length > 0) {
+      copy[segment] = applyOperation(copy[segment], rest, { op, path, value });
+    } else if (op === 'remove') {
+      delete copy[segment];
+    } else {
+      copy[segment] = value;
+    }
+    return copy;
+  }
+
+  throw new Error(`Path ${path} does not exist.`);
+};
+
+/**
+ * Applies a JSON patch, as emitted by `onPatch`, without mutating the target.
+ * Throws if the patch can not be applied.
+ */
+export const applyPatch = (target: unknown, patch: IJsonPatch): unknown => {
+  const segments = splitPath(patch.path).map((segment) => unescapeJsonPath(segment));
+
+  if (segments.length === 0) {
+    if (patch.op === 'remove') {
+      throw new Error('The root can not be removed.');
+    }
+    return patch.value;
+  }
+
+  return applyOperation(target, segments, patch);
+};
+
+/**
+ * Applies the JSON patches in order, skipping the ones that can not be applied.
+ */
+export const applyPatches = <T>(target: T, patches: IJsonPatch[]) =>
+  patches.reduce(
+    ({ result, skipped }, patch) => {
+      try {
+        return { result: applyPatch(result, patch) as T, skipped };
+      } catch {
+        return { result, skipped: skipped + 1 };
+      }
+    },
+    { result: target, skipped: 0 }
+  );
@@ -0,0 +1,91 @@
+import { SnapshotIn, types } from 'mobx-state-tree';
+import { describe, expect, expectTypeOf, it } from 'vitest';
+import { transformIn, transformOut } from './apply-transforms';
+import createTransform from './create-transform';
+import { Transform } from './types';
+
+const storeModel = types.model({
+  logs: types.array(types.string),
+  files: types.map(types.model({ name: types.string, blob: types.string })),
+});
+
+type StoreSnapshot = SnapshotIn<typeof storeModel>;
+
+describe('transforms', () => {
+  const snapshot: StoreSnapshot = {
+    logs: ['one', 'two'],
+    files: { a: { name: 'a.txt', blob: 'hello' } },
+  };
+
+  const logsTransform = createTransform<StoreSnapshot>()('/logs', {
+    in: (logs) => logs?.join('\n'),
+    out: (logs) => (logs as string).split('\n'),
+  });
+
+  const blobTransform = createTransform<StoreSnapshot>()('/files/*/blob', {
+    in: (blob) => btoa(blob),
+    out: (blob) => atob(blob as string),
+  });
+
+  it('should type the value against the path', () => {
+    expectTypeOf(logsTransform).toMatchTypeOf<Transform<StoreSnapshot['logs']>>();
+    expectTypeOf(blobTransform).toMatchTypeOf<Transform<string>>();
+    expectTypeOf([logsTransform, blobTransform]).toMatchTypeOf<Transform[]>();
+  });
+
+  it('should transform the matching paths in and out', () => {
+    const persisted = transformIn(snapshot, [logsTransform, blobTransform]);
+
+    expect(persisted).toStrictEqual({
+      logs: 'one\ntwo',
+      files: { a: { name: 'a.txt', blob: 'aGVsbG8=' } },
+    });
+    const restored = transformOut(persisted, [logsTransform, blobTransform]);
+    expect(restored).toStrictEqual(snapshot);
+    expect(storeModel.is(restored)).toBe(true);
+  });
+
+  it('should not mutate the snapshot', () => {
+    const copy = structuredClone(snapshot);
+    transformIn(snapshot, [logsTransform, blobTransform]);
+
+    expect(snapshot).toStrictEqual(copy);
+  });
+
+  it('should run `in` in order and `out` in reverse order', () => {
+    const calls: string[] = [];
+    const createTracker = (name: string): Transform => ({
+      path: '',
+      in: (value) => (calls.push(`in:${name}`), value),
+      out: (value) => (calls.push(`out:${name}`), value),
+    });
+    const transforms = [createTracker('first'), createTracker('second')];
+
+    transformOut(transformIn(snapshot, transforms), transforms);
+
+    expect(calls).toStrictEqual(['in:first', 'in:second', 'out:second', 'out:first']);
+  });
+
+  it('should transform the whole snapshot with an empty path', () => {
+    const transform: Transform = {
+      path: '',
+      in: (value) => JSON.stringify(value),
+      out: (value) => JSON.parse(value as string),
+    };
+
+    expect(transformIn(snapshot, [transform])).toBe(JSON.stringify(snapshot));
+  });
+
+  it('should pass the path of the value to the transform', () => {
+    const paths: string[] = [];
+    transformIn(snapshot, [
+      { path: '/files/*/name', in: (value, path) => (paths.push(path), value), out: (v) => v },
+    ]);
+
+    expect(paths).toStrictEqual(['/files/a/name']);
+  });
+
+  it('should skip paths that do not exist', () => {
+    expect(transformIn({ logs: [] }, [blobTransform])).toStrictEqual({ logs: [] });
+  });
+});
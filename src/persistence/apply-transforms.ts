@@ -0,0 +1,20 @@
+import { mapPaths } from '../utils/path-selection';
+import { Transform } from './types';
+
+/**
+ * Runs the `in` function of the transforms, in order, on the snapshot to be persisted.
+ */
+export const transformIn = <T>(snapshot: T, transforms: Transform[]): T =>
+  transforms.reduce(
+    (result, transform) => mapPaths(result, [transform.path], transform.in.bind(transform)),
+    snapshot
+  );
+
+/**
+ * Runs the `out` function of the transforms, in reverse order, on the persisted snapshot.
+ */
+export const transformOut = <T>(snapshot: T, transforms: Transform[]): T =>
+  transforms.reduceRight(
+    (result, transform) => mapPaths(result, [transform.path], transform.out.bind(transform)),
+    snapshot
+  );
@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest';
+import createJournal from './create-journal';
+import createSnapshotFilter from './create-snapshot-filter';
+import { Transform } from './types';
+
+describe('createJournal', () => {
+  const init = { user: { name: '', token: '' }, logs: [] as string[], count: 0 };
+  const snapshotFilter = createSnapshotFilter({ init, disallowList: ['/user/token'] });
+  const joinLogs: Transform<string[]> = {
+    path: '/logs',
+    in: (logs) => logs.join('\n'),
+    out: (logs) => (logs as string).split('\n'),
+  };
+  const getSnapshot = () => ({
+    user: { name: 'John', token: 'secret' },
+    logs: ['first', 'second'],
+    count: 1,
+  });
+
+  it('should need a compaction until a snapshot is written', () => {
+    const journal = createJournal({ snapshotFilter, transforms: [] });
+
+    expect(journal.needsCompaction()).toBe(true);
+
+    journal.compact('checksum', 0);
+
+    expect(journal.needsCompaction()).toBe(false);
+    expect(journal.toStorage()).toStrictEqual({ base: 'checksum', patches: [] });
+  });
+
+  it('should record the patches in their persisted form', () => {
+    const journal = createJournal({ snapshotFilter, transforms: [] });
+
+    expect(journal.record({ op: 'replace', path: '/count', value: 1 }, getSnapshot)).toBe(true);
+    expect(journal.record({ op: 'replace', path: '/user/token', value: 's' }, getSnapshot)).toBe(
+      false
+    );
+    expect(
+      journal.record(
+        { op: 'replace', path: '/user', value: { name: 'John', token: 'secret' } },
+        getSnapshot
+      )
+    ).toBe(true);
+
+    expect(journal.toStorage().patches).toStrictEqual([
+      { op: 'replace', path: '/count', value: 1 },
+      { op: 'replace', path: '/user', value: { name: 'John' } },
+    ]);
+  });
+
+  it('should record patches inside transformed subtrees as a replacement of the subtree', () => {
+    const journal = createJournal({ snapshotFilter, transforms: [joinLogs] });
+
+    journal.record({ op: 'add', path: '/logs/1', value: 'second' }, getSnapshot);
+    journal.record({ op: 'replace', path: '/logs', value: ['third'] }, getSnapshot);
+
+    expect(journal.toStorage().patches).toStrictEqual([
+      { op: 'replace', path: '/logs', value: 'first\nsecond' },
+      { op: 'replace', path: '/logs', value: 'third' },
+    ]);
+  });
+
+  it('should need a compaction when a removal can not be recorded', () => {
+    const allowed = createSnapshotFilter({ init, allowList: ['/user/name'] });
+    const journal = createJournal({ snapshotFilter: allowed, transforms: [] });
+    journal.compact('checksum', 0);
+
+    expect(journal.record({ op: 'remove', path: '/user' }, getSnapshot)).toBe(true);
+    expect(journal.needsCompaction()).toBe(true);
+  });
+
+  it('should need a compaction when the journal is too long', () => {
+    const journal = createJournal({ snapshotFilter, transforms: [] }, { compactAfter: 2 });
+    journal.compact('checksum', 0);
+
+    journal.record({ op: 'replace', path: '/count', value: 1 }, getSnapshot);
+    expect(journal.needsCompaction()).toBe(false);
+
+    journal.record({ op: 'replace', path: '/count', value: 2 }, getSnapshot);
+    expect(journal.needsCompaction()).toBe(true);
+  });
+
+  it('should keep the patches recorded while compacting', () => {
+    const journal = createJournal({ snapshotFilter, transforms: [] });
+
+    journal.record({ op: 'replace', path: '/count', value: 1 }, getSnapshot);
+    const count = journal.size();
+    journal.record({ op: 'replace', path: '/count', value: 2 }, getSnapshot);
+    journal.compact('checksum', count);
+
+    expect(journal.toStorage()).toStrictEqual({
+      base: 'checksum',
+      patches: [{ op: 'replace', path: '/count', value: 2 }],
+    });
+  });
+
+  it('should replay the journal of the persisted snapshot and continue it', () => {
+    const journal = createJournal({ snapshotFilter, transforms: [] });
+    const persisted = {
+      base: 'checksum',
+      patches: [{ op: 'replace', path: '/count', value: 2 }],
+    };
+
+    expect(journal.replay({ count: 1 }, persisted, 'checksum')).toStrictEqual({
+      result: { count: 2 },
+      replayed: 1,
+      skipped: 0,
+    });
+    expect(journal.needsCompaction()).toBe(false);
+    expect(journal.toStorage()).toStrictEqual(persisted);
+  });
+
+  it('should skip the patches that fail to apply', () => {
+    const journal = createJournal({ snapshotFilter, transforms: [] });
+    const persisted = {
+      base: 'checksum',
+      patches: [
+        { op: 'replace', path: '/missing/count', value: 2 },
+        { op: 'replace', path: '/count', value: 3 },
+      ],
+    };
+
+    expect(journal.replay({ count: 1 }, persisted, 'checksum')).toStrictEqual({
+      result: { count: 3 },
+      replayed: 1,
+      skipped: 1,
+    });
+    expect(journal.needsCompaction()).toBe(true);
+  });
+
+  it('should ignore the journal of another snapshot', () => {
+    const journal = createJournal({ snapshotFilter, transforms: [] });
+    const persisted = { base: 'old', patches: [{ op: 'replace', path: '/count', value: 2 }] };
+
+    expect(journal.replay({ count: 1 }, persisted, 'checksum')).toStrictEqual({
+      result: { count: 1 },
+      replayed: 0,
+      skipped: 0,
+    });
+    expect(journal.replay({ count: 1 }, null, 'checksum').result).toStrictEqual({ count: 1 });
+    expect(journal.needsCompaction()).toBe(true);
+  });
+});
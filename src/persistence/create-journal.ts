@@ -0,0 +1,98 @@
+import { IJsonPatch } from 'mobx-state-tree';
+import isObjectLike from '../utils/is-object-like';
+import { applyPatches } from './apply-patches';
+import { SnapshotFilter } from './create-snapshot-filter';
+import toPersistedPatch from './to-persisted-patch';
+import { JournalOptions, PersistedJournal, Transform } from './types';
+
+export interface JournalContext {
+  /** The filter the persisted snapshot is written with. */
+  snapshotFilter: SnapshotFilter;
+  /** The transforms the persisted snapshot is written with. */
+  transforms: Transform[];
+}
+
+const defaultOptions: JournalOptions = {
+  compactAfter: 100,
+};
+
+const isPersistedJournal = (value: unknown): value is PersistedJournal =>
+  isObjectLike(value) && typeof value.base === 'string' && Array.isArray(value.patches);
+
+/**
+ * Records the patches of the store in their persisted form, so they can be written to
+ * an append-only journal instead of writing the whole snapshot, and replays them on top
+ * of the persisted snapshot.
+ */
+const createJournal = (
+  { snapshotFilter, transforms }: JournalContext,
+  options?: Partial<JournalOptions>
+) => {
+  const { compactAfter } = options ? { ...defaultOptions, ...options } : defaultOptions;
+  // Checksum of the persisted snapshot, null until one is written.
+  let base: string | null = null;
+  let patches: IJsonPatch[] = [];
+
+  return {
+    /**
+     * Records a patch of the store. `getSnapshot` returns the store snapshot after the
+     * patch. Returns whether there is anything to write.
+     */
+    record(patch: IJsonPatch, getSnapshot: () => unknown) {
+      const persisted = toPersistedPatch(patch, getSnapshot, snapshotFilter, transforms);
+
+      if (persisted) {
+        patches.push(persisted);
+        return true;
+      }
+      if (patch.op === 'remove') {
+        // The removal of a parent of persisted paths can not be recorded, write it all instead.
+        base = null;
+        return true;
+      }
+      return false;
+    },
+    /** Whether the whole snapshot must be written, as there is none or the journal is too long. */
+    needsCompaction: () => base === null || patches.length >= compactAfter,
+    /** The number of patches recorded since the persisted snapshot. */
+    size: () => patches.length,
+    /**
+     * Starts a new journal on top of the written snapshot. The patches recorded while it
+     * was written, after the first `count` ones, are kept.
+     */
+    compact(checksum: string, count: number) {
+      base = checksum;
+      patches = patches.slice(count);
+    },
+    /** Returns the journal to write to the storage. */
+    toStorage: (): PersistedJournal => ({ base: base ?? '', patches: [...patches] }),
+    /**
+     * Replays the persisted journal on the persisted snapshot. A journal written for a
+     * different snapshot, ie. when the app was killed while compacting, is ignored.
+     * Continues the journal if it was fully replayed.
+     */
+    replay<T>(data: T, journal: unknown, checksum: string) {
+      if (!isPersistedJournal(journal) || !checksum || journal.base !== checksum) {
+        return { result: data, replayed: 0, skipped: 0 };
+      }
+
+      const { result, skipped } = applyPatches(data, journal.patches);
+
+      if (!skipped) {
+        base = checksum;
+        patches = [...journal.patches];
+      }
+
+      return { result, replayed: journal.patches.length - skipped, skipped };
+    },
+    /** Drops the journal, so the whole snapshot is written on the next write. */
+    reset() {
+      base = null;
+      patches = [];
+    },
+  };
+};
+
+export type Journal = ReturnType<typeof createJournal>;
+
+export default createJournal;
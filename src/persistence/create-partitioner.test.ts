@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import createPartitioner from './create-partitioner';
+
+describe('createPartitioner', () => {
+  const snapshot = {
+    user: { name: 'John Doe' },
+    ui: { theme: 'dark', sidebar: { open: true } },
+    cache: { entities: [{ id: 1 }] },
+  };
+
+  it('should only have the storage key without partitions', () => {
+    const partitioner = createPartitioner('store');
+
+    expect(partitioner.keys).toStrictEqual(['store']);
+    expect(partitioner.part(snapshot, 'store')).toBe(snapshot);
+    expect(partitioner.join({ store: snapshot })).toBe(snapshot);
+  });
+
+  it('should split the snapshot into the partitions and the rest', () => {
+    const partitioner = createPartitioner('store', {
+      '/cache': 'store:cache',
+      '/ui/sidebar': 'store:sidebar',
+    });
+
+    expect(partitioner.keys).toStrictEqual(['store', 'store:cache', 'store:sidebar']);
+    expect(partitioner.part(snapshot, 'store')).toStrictEqual({
+      user: { name: 'John Doe' },
+      ui: { theme: 'dark' },
+    });
+    expect(partitioner.part(snapshot, 'store:cache')).toStrictEqual({
+      cache: { entities: [{ id: 1 }] },
+    });
+    expect(partitioner.part(snapshot, 'store:sidebar')).toStrictEqual({
+      ui: { sidebar: { open: true } },
+    });
+  });
+
+  it('should join the parts back into the snapshot', () => {
+    const partitioner = createPartitioner('store', {
+      '/cache': 'store:cache',
+      '/ui/sidebar': 'store:sidebar',
+    });
+    const parts = Object.fromEntries(
+      partitioner.keys.map((key) => [key, partitioner.part(snapshot, key)])
+    );
+
+    expect(partitioner.join(parts)).toStrictEqual(snapshot);
+  });
+
+  it('should keep the subtree from the rest when a partition is missing', () => {
+    const partitioner = createPartitioner('store', { '/cache': 'store:cache' });
+
+    expect(partitioner.join({ store: snapshot })).toStrictEqual(snapshot);
+    expect(partitioner.join({ 'store:cache': { cache: { entities: [] } } })).toStrictEqual({
+      cache: { entities: [] },
+    });
+  });
+
+  it('should return the keys whose parts changed', () => {
+    const partitioner = createPartitioner('store', {
+      '/cache': 'store:cache',
+      '/ui/sidebar': 'store:sidebar',
+    });
+
+    expect(partitioner.changedKeys(snapshot, snapshot)).toStrictEqual([]);
+    expect(
+      partitioner.changedKeys(snapshot, { ...snapshot, ui: { ...snapshot.ui, theme: 'light' } })
+    ).toStrictEqual(['store']);
+    expect(
+      partitioner.changedKeys(snapshot, { ...snapshot, cache: { entities: [] } })
+    ).toStrictEqual(['store:cache']);
+    expect(
+      partitioner.changedKeys(snapshot, {
+        ...snapshot,
+        ui: { ...snapshot.ui, sidebar: { open: false } },
+      })
+    ).toStrictEqual(['store:sidebar']);
+    expect(partitioner.changedKeys(undefined, snapshot)).toStrictEqual(partitioner.keys);
+  });
+
+  it('should detect added and removed keys outside of the partitions', () => {
+    const partitioner = createPartitioner('store', { '/cache': 'store:cache' });
+    const withoutUser = { ui: snapshot.ui, cache: snapshot.cache };
+
+    expect(partitioner.changedKeys(snapshot, withoutUser)).toStrictEqual(['store']);
+    expect(partitioner.changedKeys(withoutUser, snapshot)).toStrictEqual(['store']);
+  });
+
+  it('should throw on invalid partitions', () => {
+    expect(() => createPartitioner('store', { '': 'store:all' })).toThrow(
+      'Partition path  must point to a single subtree.'
+    );
+    expect(() => createPartitioner('store', { '/todos/*': 'store:todos' })).toThrow(
+      'Partition path /todos/* must point to a single subtree.'
+    );
+    expect(() =>
+      createPartitioner('store', { '/ui': 'store:ui', '/ui/sidebar': 'store:sb' })
+    ).toThrow('Partition /ui/sidebar is nested in partition /ui.');
+    expect(() => createPartitioner('store', { '/ui': 'store' })).toThrow(
+      'Every partition must have its own storage key.'
+    );
+  });
+});
@@ -0,0 +1,105 @@
+import { unescapeJsonPath } from 'mobx-state-tree';
+import { PersistedSnapshot } from '../migration/types';
+import isObjectLike from '../utils/is-object-like';
+import { isWildcardSegment, splitPath } from '../utils/match-path';
+import { omitPaths, overridePaths, pickPaths } from '../utils/path-selection';
+
+const getSegments = (value: unknown, segments: string[]): unknown =>
+  segments.reduce<unknown>(
+    (current, segment) => (isObjectLike(current) ? current[segment] : undefined),
+    value
+  );
+
+/**
+ * Whether anything changed between the snapshots, other than the values at the paths.
+ * Relies on the structural sharing of the snapshots, unchanged subtrees are identical.
+ */
+const isChangedOutside = (previous: unknown, next: unknown, paths: string[][]): boolean => {
+  if (previous === next || paths.some((segments) => segments.length === 0)) {
+    return false;
+  }
+  if (!isObjectLike(previous) || !isObjectLike(next) || paths.length === 0) {
+    return true;
+  }
+  const keys = new Set([...Object.keys(previous), ...Object.keys(next)]);
+  for (const key of keys) {
+    const nested = paths
+      .filter((segments) => segments[0] === key)
+      .map((segments) => segments.slice(1));
+    if (
+      nested.length === 0
+        ? previous[key] !== next[key]
+        : isChangedOutside(previous[key], next[key], nested)
+    ) {
+      return true;
+    }
+  }
+  return false;
+};
+
+/**
+ * Splits the persisted snapshot into partitions stored under their own keys, keyed by
+ * the JSON pointer of their subtree. Everything outside of the partitions is stored
+ * under the storage key. The parts keep the structure of the snapshot, so they can be
+ * joined by overriding the paths.
+ */
+const createPartitioner = (storageKey: string, partitions: Record<string, string> = {}) => {
+  const paths = Object.keys(partitions);
+  const segmentsByPath = new Map(
+    paths.map((path) => [path, splitPath(path).map((segment) => unescapeJsonPath(segment))])
+  );
+
+  for (const path of paths) {
+    if (path === '' || splitPath(path).some((segment) => isWildcardSegment(segment))) {
+      throw new Error(`Partition path ${path} must point to a single subtree.`);
+    }
+    const parent = paths.find((other) => other !== path && path.startsWith(`${other}/`));
+    if (parent) {
+      throw new Error(`Partition ${path} is nested in partition ${parent}.`);
+    }
+  }
+
+  const keys = [storageKey, ...paths.map((path) => partitions[path])];
+
+  if (new Set(keys).size !== keys.length) {
+    throw new Error('Every partition must have its own storage key.');
+  }
+
+  const pathByKey = new Map(paths.map((path) => [partitions[path], path]));
+
+  return {
+    /** The storage keys, the storage key of the rest of the snapshot first. */
+    keys,
+    /** Returns the part of the snapshot stored under the key. */
+    part(snapshot: PersistedSnapshot, key: string) {
+      const path = pathByKey.get(key);
+      return path === undefined ? omitPaths(snapshot, paths) : pickPaths(snapshot, [path]);
+    },
+    /**
+     * Joins the parts read from the storage keys. Missing partitions are left as they
+     * are in the rest of the snapshot, ie. when they were persisted before partitioning.
+     */
+    join(parts: Record<string, PersistedSnapshot | undefined>) {
+      return paths.reduce((result, path) => {
+        const part = parts[partitions[path]];
+        return part ? overridePaths(result, part, [path]) : result;
+      }, parts[storageKey] ?? {});
+    },
+    /** Returns the storage keys whose part changed between the snapshots. */
+    changedKeys(previous: unknown, next: unknown) {
+      const segments = [...segmentsByPath.values()];
+      return keys.filter((key) => {
+        const path = pathByKey.get(key);
+        if (path === undefined) {
+          return isChangedOutside(previous, next, segments);
+        }
+        const pathSegments = segmentsByPath.get(path)!;
+        return getSegments(previous, pathSegments) !== getSegments(next, pathSegments);
+      });
+    },
+  };
+};
+
+export type Partitioner = ReturnType<typeof createPartitioner>;
+
+export default createPartitioner;
@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import createSnapshotFilter from './create-snapshot-filter';
+
+describe('createSnapshotFilter', () => {
+  const init = {
+    ui: { theme: 'light', isMenuOpen: false },
+    todos: [],
+    token: '',
+  };
+
+  const snapshot = {
+    ui: { theme: 'dark', isMenuOpen: true },
+    todos: [
+      { text: 'First', isEditing: true },
+      { text: 'Second', isEditing: false },
+    ],
+    token: 'secret',
+  };
+
+  it('should pass the snapshot through without lists', () => {
+    const filter = createSnapshotFilter({ init });
+
+    expect(filter.toStorage(snapshot)).toBe(snapshot);
+    expect(filter.fromStorage(snapshot)).toBe(snapshot);
+  });
+
+  describe('with a disallowList object', () => {
+    const filter = createSnapshotFilter({
+      init,
+      disallowList: { ui: { isMenuOpen: false }, token: '' },
+    });
+
+    it('should strip the disallowed paths before writing', () => {
+      expect(filter.toStorage(snapshot)).toStrictEqual({
+        ui: { theme: 'dark' },
+        todos: snapshot.todos,
+      });
+    });
+
+    it('should hydrate the disallowed paths with the disallowList values', () => {
+      expect(filter.fromStorage({ ui: { theme: 'dark' }, todos: [] })).toStrictEqual({
+        ui: { theme: 'dark', isMenuOpen: false },
+        todos: [],
+        token: '',
+      });
+    });
+
+    it('should override the disallowed paths in legacy snapshots', () => {
+      expect(filter.fromStorage(snapshot)).toStrictEqual({
+        ...snapshot,
+        ui: { theme: 'dark', isMenuOpen: false },
+        token: '',
+      });
+    });
+
+    it('should hydrate the disallowed paths with the base snapshot values when given', () => {
+      expect(filter.fromStorage({ ui: { theme: 'light' }, todos: [] }, snapshot)).toStrictEqual({
+        ui: { theme: 'light', isMenuOpen: true },
+        todos: [],
+        token: 'secret',
+      });
+    });
+  });
+
+  describe('with disallowList patterns', () => {
+    const filter = createSnapshotFilter({
+      init,
+      disallowList: ['/todos/*/isEditing', '/ui/isMenuOpen'],
+    });
+
+    it('should strip the matching paths before writing', () => {
+      expect(filter.toStorage(snapshot)).toStrictEqual({
+        ui: { theme: 'dark' },
+        todos: [{ text: 'First' }, { text: 'Second' }],
+        token: 'secret',
+      });
+    });
+
+    it('should replace the matching paths with the init values, or drop them', () => {
+      expect(filter.fromStorage(snapshot)).toStrictEqual({
+        ui: { theme: 'dark', isMenuOpen: false },
+        todos: [{ text: 'First' }, { text: 'Second' }],
+        token: 'secret',
+      });
+    });
+  });
+
+  describe('with an allowList', () => {
+    const filter = createSnapshotFilter({
+      init,
+      allowList: ['/ui/theme', '/todos/*/text'],
+    });
+
+    it('should write the allowed paths only', () => {
+      expect(filter.toStorage(snapshot)).toStrictEqual({
+        ui: { theme: 'dark' },
+        todos: [{ text: 'First' }, { text: 'Second' }],
+      });
+    });
+
+    it('should read the allowed paths only, everything else from init', () => {
+      expect(filter.fromStorage(snapshot)).toStrictEqual({
+        ui: { theme: 'dark', isMenuOpen: false },
+        todos: [{ text: 'First' }, { text: 'Second' }],
+        token: '',
+      });
+    });
+
+    it('should read everything else from the base snapshot when given', () => {
+      const persisted = { ui: { theme: 'light' }, todos: [{ text: 'Third' }, { text: 'Fourth' }] };
+
+      expect(filter.fromStorage(persisted, snapshot)).toStrictEqual({
+        ui: { theme: 'light', isMenuOpen: true },
+        todos: [
+          { text: 'Third', isEditing: true },
+          { text: 'Fourth', isEditing: false },
+        ],
+        token: 'secret',
+      });
+    });
+  });
+
+  it('should apply the disallowList within the allowList', () => {
+    const filter = createSnapshotFilter({
+      init,
+      allowList: { ui: {}, todos: [] },
+      disallowList: ['/**/isMenuOpen', '/**/isEditing'],
+    });
+
+    expect(filter.toStorage(snapshot)).toStrictEqual({
+      ui: { theme: 'dark' },
+      todos: [{ text: 'First' }, { text: 'Second' }],
+    });
+  });
+});
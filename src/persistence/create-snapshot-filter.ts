@@ -0,0 +1,67 @@
+import { PersistedSnapshot } from '../migration/types';
+import {
+  omitPaths,
+  overridePaths,
+  PathSelection,
+  pickPaths,
+  selectionToPaths,
+} from '../utils/path-selection';
+
+export interface SnapshotFilterOptions {
+  /** The initial snapshot, everything that is not persisted comes from it. */
+  init: PersistedSnapshot;
+  /** Part of the store that will be persisted. default is the whole store. */
+  allowList?: PathSelection<PersistedSnapshot>;
+  /**
+   * Part of the store that will not be persisted. When it is a deep partial of the
+   * snapshot, its values are hydrated instead of the ones from the initial snapshot.
+   */
+  disallowList?: PathSelection<PersistedSnapshot>;
+}
+
+/**
+ * Applies the allow and disallow lists consistently to the snapshots written to and
+ * read from the storage.
+ */
+const createSnapshotFilter = ({ init, allowList, disallowList }: SnapshotFilterOptions) => {
+  const allowedPaths = allowList ? selectionToPaths(allowList) : null;
+  const disallowedPaths = disallowList ? selectionToPaths(disallowList) : null;
+  const disallowedValues =
+    disallowList && !Array.isArray(disallowList) ? (disallowList as PersistedSnapshot) : init;
+
+  return {
+    /** Strips the parts of the snapshot that must not be persisted. */
+    toStorage(snapshot: PersistedSnapshot) {
+      let result = snapshot;
+      if (allowedPaths) {
+        result = pickPaths(result, allowedPaths);
+      }
+      if (disallowedPaths) {
+        result = omitPaths(result, disallowedPaths);
+      }
+      return result;
+    },
+    /**
+     * Replaces the parts of the persisted snapshot that must not be hydrated, with their
+     * values from the base snapshot when given, ie. to keep the current values of the store.
+     */
+    fromStorage(snapshot: PersistedSnapshot, base?: PersistedSnapshot) {
+      let result = snapshot;
+      if (allowedPaths) {
+        result = overridePaths(base ?? init, result, allowedPaths);
+      }
+      if (disallowedPaths) {
+        result = overridePaths(
+          omitPaths(result, disallowedPaths),
+          base ?? disallowedValues,
+          disallowedPaths
+        );
+      }
+      return result;
+    },
+  };
+};
+
+export type SnapshotFilter = ReturnType<typeof createSnapshotFilter>;
+
+export default createSnapshotFilter;
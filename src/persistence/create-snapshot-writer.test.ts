@@ -0,0 +1,271 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import createSnapshotWriter from './create-snapshot-writer';
+
+describe('createSnapshotWriter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should debounce the writes and write the latest snapshot', async () => {
+    const write = vi.fn();
+    const writer = createSnapshotWriter({ write, writeDelay: 100 });
+
+    writer.schedule(1);
+    await vi.advanceTimersByTimeAsync(50);
+    writer.schedule(2);
+    await vi.advanceTimersByTimeAsync(99);
+    expect(write).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(write).toHaveBeenCalledTimes(1);
+    expect(write).toHaveBeenCalledWith(2);
+  });
+
+  it('should write the pending snapshot immediately on flush', async () => {
+    const write = vi.fn();
+    const writer = createSnapshotWriter({ write, writeDelay: 100 });
+
+    writer.schedule(1);
+    await writer.flush();
+    expect(write).toHaveBeenCalledWith(1);
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(write).toHaveBeenCalledTimes(1);
+  });
+
+  it('should resolve flush when the write is completed', async () => {
+    let resolveWrite = () => {};
+    const write = vi.fn(() => new Promise<void>((resolve) => (resolveWrite = resolve)));
+    const writer = createSnapshotWriter({ write, writeDelay: 100 });
+    const onFlushed = vi.fn();
+
+    writer.schedule(1);
+    const flushed = writer.flush().then(onFlushed);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(onFlushed).not.toHaveBeenCalled();
+
+    resolveWrite();
+    await flushed;
+    expect(onFlushed).toHaveBeenCalled();
+  });
+
+  it('should not write while paused, and write the pending snapshot on resume', async () => {
+    const write = vi.fn();
+    const writer = createSnapshotWriter({ write, writeDelay: 100 });
+
+    writer.pause();
+    writer.schedule(1);
+    writer.schedule(2);
+    await vi.advanceTimersByTimeAsync(200);
+    expect(write).not.toHaveBeenCalled();
+
+    writer.resume();
+    await vi.advanceTimersByTimeAsync(100);
+    expect(write).toHaveBeenCalledTimes(1);
+    expect(write).toHaveBeenCalledWith(2);
+  });
+
+  it('should not write anything on resume if nothing changed', async () => {
+    const write = vi.fn();
+    const writer = createSnapshotWriter({ write, writeDelay: 100 });
+
+    writer.pause();
+    writer.resume();
+    await vi.advanceTimersByTimeAsync(100);
+    expect(write).not.toHaveBeenCalled();
+  });
+
+  it('should drop the pending snapshot on cancel', async () => {
+    const write = vi.fn();
+    const writer = createSnapshotWriter({ write, writeDelay: 100 });
+
+    writer.schedule(1);
+    writer.cancel();
+    await vi.advanceTimersByTimeAsync(100);
+    await writer.flush();
+    expect(write).not.toHaveBeenCalled();
+  });
+
+  it('should write in order even if a write fails', async () => {
+    const written: unknown[] = [];
+    const write = vi.fn(async (snapshot: unknown) => {
+      if (snapshot === 1) {
+        throw new Error('Write failed');
+      }
+      written.push(snapshot);
+    });
+    const writer = createSnapshotWriter({ write, writeDelay: 100 });
+
+    writer.schedule(1);
+    await expect(writer.flush()).rejects.toThrowError('Write failed');
+    writer.schedule(2);
+    await writer.flush();
+    expect(written).toStrictEqual([2]);
+  });
+
+  it('should not reject flush again for a write that already failed', async () => {
+    const write = vi.fn().mockRejectedValueOnce(new Error('Write failed'));
+    const writer = createSnapshotWriter({ write, writeDelay: 100 });
+
+    writer.schedule(1);
+    await expect(writer.flush()).rejects.toThrowError('Write failed');
+
+    await expect(writer.flush()).resolves.toBeUndefined();
+    writer.schedule(2);
+    writer.cancel();
+    await expect(writer.flush()).resolves.toBeUndefined();
+  });
+
+  it('should be dirty while a snapshot is pending or being written', async () => {
+    let finishWrite = () => undefined as void;
+    const write = () =>
+      new Promise<void>((resolve) => {
+        finishWrite = resolve;
+      });
+    const writer = createSnapshotWriter({ write, writeDelay: 100 });
+
+    expect(writer.isDirty()).toBe(false);
+    writer.schedule(1);
+    expect(writer.isDirty()).toBe(true);
+    expect(writer.hasPending()).toBe(true);
+
+    const flushed = writer.flush();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(writer.isDirty()).toBe(true);
+    expect(writer.hasPending()).toBe(false);
+
+    finishWrite();
+    await flushed;
+    expect(writer.isDirty()).toBe(false);
+  });
+
+  it('should report the failures of debounced writes', async () => {
+    const error = new Error('Write failed');
+    const onError = vi.fn();
+    const writer = createSnapshotWriter({
+      write: () => Promise.reject(error),
+      writeDelay: 100,
+      onError,
+    });
+
+    writer.schedule(1);
+    await vi.advanceTimersByTimeAsync(100);
+    expect(onError).toHaveBeenCalledWith(error);
+  });
+
+  it('should retry failed writes with exponential backoff', async () => {
+    const write = vi
+      .fn()
+      .mockRejectedValueOnce(new Error('Write failed'))
+      .mockRejectedValueOnce(new Error('Write failed'))
+      .mockResolvedValue(undefined);
+    const onError = vi.fn();
+    const writer = createSnapshotWriter({
+      write,
+      writeDelay: 100,
+      retries: 2,
+      retryDelay: 10,
+      onError,
+    });
+
+    writer.schedule(1);
+    await vi.advanceTimersByTimeAsync(100);
+    expect(write).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(10);
+    expect(write).toHaveBeenCalledTimes(2);
+
+    await vi.advanceTimersByTimeAsync(19);
+    expect(write).toHaveBeenCalledTimes(2);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(write).toHaveBeenCalledTimes(3);
+    expect(onError).not.toHaveBeenCalled();
+  });
+
+  it('should report the failure once the retries are exhausted', async () => {
+    const error = new Error('Write failed');
+    const write = vi.fn(() => Promise.reject(error));
+    const onError = vi.fn();
+    const writer = createSnapshotWriter({
+      write,
+      writeDelay: 100,
+      retries: 2,
+      retryDelay: 10,
+      onError,
+    });
+
+    writer.schedule(1);
+    const flushed = writer.flush();
+    const rejection = expect(flushed).rejects.toThrow('Write failed');
+    await vi.advanceTimersByTimeAsync(30);
+
+    await rejection;
+    expect(write).toHaveBeenCalledTimes(3);
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(onError).toHaveBeenCalledWith(error);
+  });
+
+  it('should write a newer snapshot instead of retrying the failed one', async () => {
+    const write = vi.fn(async (snapshot: unknown) => {
+      if (snapshot === 1) {
+        throw new Error('Write failed');
+      }
+    });
+    const writer = createSnapshotWriter({ write, writeDelay: 100, retries: 3, retryDelay: 50 });
+
+    writer.schedule(1);
+    await vi.advanceTimersByTimeAsync(100);
+    writer.schedule(2);
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(write.mock.calls).toStrictEqual([[1], [2]]);
+  });
+
+  it('should write at least every maxWait while the snapshot keeps changing', async () => {
+    const write = vi.fn();
+    const writer = createSnapshotWriter({ write, writeDelay: 100, maxWait: 250 });
+
+    for (let i = 0; i < 5; i++) {
+      writer.schedule(i);
+      await vi.advanceTimersByTimeAsync(60);
+    }
+
+    expect(write).toHaveBeenCalledTimes(1);
+    expect(write).toHaveBeenCalledWith(4);
+  });
+
+  it('should write with the shorter delay the snapshot is scheduled with', async () => {
+    const write = vi.fn();
+    const writer = createSnapshotWriter({ write, writeDelay: 1000 });
+
+    writer.schedule(1);
+    writer.schedule(2, 100);
+    await vi.advanceTimersByTimeAsync(100);
+    expect(write).toHaveBeenCalledWith(2);
+
+    writer.schedule(3, 0);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(write).toHaveBeenLastCalledWith(3);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(write).toHaveBeenCalledTimes(2);
+  });
+
+  it('should resume with the shortest delay scheduled while paused', async () => {
+    const write = vi.fn();
+    const writer = createSnapshotWriter({ write, writeDelay: 1000 });
+
+    writer.pause();
+    writer.schedule(1, 100);
+    writer.schedule(2);
+    writer.resume();
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(write).toHaveBeenCalledWith(2);
+  });
+});
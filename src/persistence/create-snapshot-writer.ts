@@ -0,0 +1,146 @@
+import { debounce, DebouncedFunction } from '../utils/debounce';
+
+export interface SnapshotWriterOptions {
+  /** Writes the snapshot to the storage. */
+  write: (snapshot: unknown) => Promise<void> | void;
+  /** The debounce delay of the writes, unless another one is given when scheduling. */
+  writeDelay: number;
+  /** The maximum time a write can be delayed while the snapshot keeps changing. */
+  maxWait?: number;
+  /** The number of times a failed write is retried. default is 0. */
+  retries?: number;
+  /** The delay before the first retry, doubled for every further one. default is 1000 (ms). */
+  retryDelay?: number;
+  /** Called when a write fails after all retries. Failed flushes reject as well. */
+  onError?: (error: unknown) => void;
+}
+
+const wait = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Debounces the writes of the store snapshots, keeping track of the pending snapshot
+ * so it can be written on demand, and of the write in progress so it can be awaited.
+ * Writes are queued, so they land in order, and the latest snapshot always wins.
+ */
+const createSnapshotWriter = ({
+  write,
+  writeDelay,
+  maxWait,
+  retries = 0,
+  retryDelay = 1000,
+  onError,
+}: SnapshotWriterOptions) => {
+  // The delay is the shortest one the pending snapshot was scheduled with.
+  let pending: { snapshot: unknown; delay: number } | null = null;
+  let paused = false;
+  let writing: Promise<void> = Promise.resolve();
+  let writesInProgress = 0;
+
+  const writeWithRetries = async (snapshot: unknown) => {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await write(snapshot);
+      } catch (error) {
+        if (attempt >= retries) {
+          throw error;
+        }
+        await wait(retryDelay * 2 ** attempt);
+        // A newer snapshot supersedes the failed one, it is written instead.
+        if (pending) {
+          return;
+        }
+      }
+    }
+  };
+
+  // Every delay has its own debounce, so a shorter delay is not postponed by a longer one.
+  const debouncedWrites = new Map<number, DebouncedFunction<() => void>>();
+
+  const cancelDebouncedWrites = () => debouncedWrites.forEach((debounced) => debounced.cancel());
+
+  /**
+   * Writes the pending snapshot, resolving when it is written. Without one, resolves when
+   * the write in progress is settled, its failure was already reported by its own flush.
+   */
+  const writePending = () => {
+    if (!pending) {
+      return writing.catch(() => undefined);
+    }
+    const { snapshot } = pending;
+    pending = null;
+    cancelDebouncedWrites();
+    writesInProgress++;
+    // Writes are chained so they land in order, regardless of the previous result.
+    writing = writing
+      .catch(() => undefined)
+      .then(() => writeWithRetries(snapshot))
+      .then(
+        () => {
+          writesInProgress--;
+        },
+        (error) => {
+          writesInProgress--;
+          onError?.(error);
+          throw error;
+        }
+      );
+    return writing;
+  };
+
+  const writeInBackground = () => {
+    if (!paused) {
+      // The failure is reported through `onError`.
+      writePending().catch(() => undefined);
+    }
+  };
+
+  const debouncedWrite = (delay: number) => {
+    if (delay <= 0) {
+      writeInBackground();
+      return;
+    }
+    let debounced = debouncedWrites.get(delay);
+    if (!debounced) {
+      debounced = debounce(writeInBackground, delay, { isImmediate: false, maxWait });
+      debouncedWrites.set(delay, debounced);
+    }
+    debounced();
+  };
+
+  return {
+    /**
+     * Schedules a debounced write of the snapshot, replacing the pending one. A delay of
+     * 0 writes it immediately.
+     */
+    schedule(snapshot: unknown, delay = writeDelay) {
+      pending = { snapshot, delay: pending ? Math.min(pending.delay, delay) : delay };
+      if (!paused) {
+        debouncedWrite(delay);
+      }
+    },
+    /** Writes the pending snapshot immediately, even when paused. */
+    flush: () => writePending(),
+    pause() {
+      paused = true;
+    },
+    resume() {
+      paused = false;
+      if (pending) {
+        debouncedWrite(pending.delay);
+      }
+    },
+    /** Whether a snapshot is pending, or being written. */
+    isDirty: () => pending !== null || writesInProgress > 0,
+    /** Whether a snapshot is pending, not counting the writes in progress. */
+    hasPending: () => pending !== null,
+    /** Drops the pending snapshot. */
+    cancel() {
+      pending = null;
+      cancelDebouncedWrites();
+    },
+  };
+};
+
+export type SnapshotWriter = ReturnType<typeof createSnapshotWriter>;
+
+export default createSnapshotWriter;
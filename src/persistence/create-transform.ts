@@ -0,0 +1,24 @@
+import { PathValue } from '../types/path-value';
+import { Transform } from './types';
+
+/**
+ * Creates a transform typed against the store snapshot. The snapshot type is passed
+ * to the first call, and the value type is inferred from the path in the second.
+ *
+ * @example
+ *
+ * ```ts
+ * const logsTransform = createTransform<SnapshotIn<typeof RootStore>>()('/logs', {
+ *   in: (logs) => compress(JSON.stringify(logs)),
+ *   out: (compressed) => JSON.parse(decompress(compressed as string)),
+ * });
+ * ```
+ */
+const createTransform =
+  <S>() =>
+  <P extends string>(
+    path: P,
+    transform: Omit<Transform<PathValue<S, P>>, 'path'>
+  ): Transform<PathValue<S, P>> => ({ path, in: transform.in, out: transform.out });
+
+export default createTransform;
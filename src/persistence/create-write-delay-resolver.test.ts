@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import createWriteDelayResolver from './create-write-delay-resolver';
+
+describe('createWriteDelayResolver', () => {
+  const resolveWriteDelay = createWriteDelayResolver(1500, {
+    '/auth': 0,
+    '/todos/*/done': 200,
+    '/cache/**': 10000,
+  });
+
+  it('should use the default delay for paths without a delay', () => {
+    expect(resolveWriteDelay(['/ui/theme'])).toBe(1500);
+    expect(resolveWriteDelay([])).toBe(1500);
+    expect(createWriteDelayResolver(1500)(['/auth'])).toBe(1500);
+  });
+
+  it('should use the delay of the paths at or inside a matching path', () => {
+    expect(resolveWriteDelay(['/auth'])).toBe(0);
+    expect(resolveWriteDelay(['/auth/token'])).toBe(0);
+    expect(resolveWriteDelay(['/todos/1/done'])).toBe(200);
+    expect(resolveWriteDelay(['/todos/1/text'])).toBe(1500);
+    expect(resolveWriteDelay(['/cache/users/1'])).toBe(10000);
+  });
+
+  it('should use the delay of the paths replacing a parent of a matching path', () => {
+    expect(resolveWriteDelay(['/todos/1'])).toBe(200);
+    expect(resolveWriteDelay(['/todos'])).toBe(200);
+    expect(resolveWriteDelay([''])).toBe(0);
+  });
+
+  it('should use the shortest delay of the paths', () => {
+    expect(resolveWriteDelay(['/cache/users/1', '/ui/theme'])).toBe(1500);
+    expect(resolveWriteDelay(['/cache/users/1', '/todos/1/done'])).toBe(200);
+    expect(resolveWriteDelay(['/cache/users/1', '/cache/users/2'])).toBe(10000);
+  });
+});
@@ -0,0 +1,53 @@
+import matchPath, { splitPath } from '../utils/match-path';
+
+/**
+ * Whether a change at the path touches the paths matching the pattern, ie. it is at
+ * or inside a matching path, or replaces one of its parents.
+ */
+const touchesPattern = (pattern: string, path: string) => {
+  const patternSegments = splitPath(pattern);
+  const pathSegments = splitPath(path);
+
+  for (let i = 0; i <= pathSegments.length; i++) {
+    if (
+      matchPath(
+        pattern,
+        pathSegments
+          .slice(0, i)
+          .map((segment) => `/${segment}`)
+          .join('')
+      )
+    ) {
+      return true;
+    }
+  }
+
+  const parentPattern = patternSegments
+    .slice(0, pathSegments.length)
+    .map((segment) => `/${segment}`)
+    .join('');
+  return patternSegments.length > pathSegments.length && matchPath(parentPattern, path);
+};
+
+/**
+ * Resolves the delay to write the changes at the paths with. Every path is written with
+ * the shortest delay of the patterns it touches, or the default delay if it touches none.
+ */
+const createWriteDelayResolver = (writeDelay: number, writeDelays: Record<string, number> = {}) => {
+  const patterns = Object.keys(writeDelays);
+
+  const resolvePath = (path: string) =>
+    patterns
+      .filter((pattern) => touchesPattern(pattern, path))
+      .reduce<
+        number | null
+      >((delay, pattern) => (delay === null ? writeDelays[pattern] : Math.min(delay, writeDelays[pattern])), null) ??
+    writeDelay;
+
+  return (paths: string[]) =>
+    paths.length === 0 ? writeDelay : Math.min(...paths.map(resolvePath));
+};
+
+export type WriteDelayResolver = ReturnType<typeof createWriteDelayResolver>;
+
+export default createWriteDelayResolver;
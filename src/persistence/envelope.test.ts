@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { libVersion } from '../version';
+import { isEnvelope, unwrapSnapshot, wrapSnapshot } from './envelope';
+
+describe('envelope', () => {
+  const snapshot = { name: 'John Doe', todos: [{ id: 1, done: false }] };
+
+  it('should wrap the snapshot with metadata', () => {
+    const envelope = wrapSnapshot(snapshot, 2);
+
+    expect(envelope.v).toBe(2);
+    expect(envelope.libVersion).toBe(libVersion);
+    expect(envelope.savedAt).toBeTypeOf('number');
+    expect(envelope.checksum).toMatch(/^[0-9a-f]{8}$/);
+    expect(envelope.data).toBe(snapshot);
+    expect(isEnvelope(envelope)).toBe(true);
+  });
+
+  it('should unwrap an envelope', () => {
+    const envelope = wrapSnapshot(snapshot, 1);
+
+    expect(unwrapSnapshot(structuredClone(envelope))).toStrictEqual(envelope);
+  });
+
+  it('should read a bare snapshot as version 0', () => {
+    const { v, data } = unwrapSnapshot(snapshot);
+
+    expect(v).toBe(0);
+    expect(data).toBe(snapshot);
+  });
+
+  it('should not mistake a snapshot with similar keys for an envelope', () => {
+    const bareSnapshot = { v: 1, data: 'value' };
+
+    expect(isEnvelope(bareSnapshot)).toBe(false);
+    expect(unwrapSnapshot(bareSnapshot).data).toBe(bareSnapshot);
+  });
+
+  it('should not depend on the order of the keys', () => {
+    const envelope = wrapSnapshot(snapshot, 1);
+    const reordered = { todos: [{ done: false, id: 1 }], name: 'John Doe' };
+
+    expect(wrapSnapshot(reordered, 1).checksum).toBe(envelope.checksum);
+    expect(unwrapSnapshot({ ...envelope, data: reordered }).data).toBe(reordered);
+  });
+
+  it('should throw if the checksum does not match', () => {
+    const envelope = wrapSnapshot(snapshot, 1);
+
+    expect(() =>
+      unwrapSnapshot({ ...envelope, data: { ...snapshot, name: 'Jane Doe' } })
+    ).toThrowError(/Checksum mismatch/);
+  });
+});
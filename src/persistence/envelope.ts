@@ -0,0 +1,78 @@
+import jsonCodec from '../codec/json-codec';
+import hash from '../utils/hash';
+import isObjectLike from '../utils/is-object-like';
+import { libVersion } from '../version';
+
+/**
+ * The value written to the storage. Wraps the snapshot with some metadata about
+ * when and how it was written.
+ */
+export interface Envelope {
+  /** The schema version of the store the snapshot was written with. */
+  v: number;
+  /** Timestamp (ms) of when the snapshot was written. */
+  savedAt: number;
+  /** The version of mst-persistent-store the snapshot was written by. */
+  libVersion: string;
+  /** Checksum of the serialized snapshot, used to detect corrupted data. */
+  checksum: string;
+  /** The snapshot itself. */
+  data: unknown;
+}
+
+const envelopeKeys = ['checksum', 'data', 'libVersion', 'savedAt', 'v'];
+
+const sortKeys = (value: unknown): unknown => {
+  if (Array.isArray(value)) {
+    return value.map(sortKeys);
+  }
+  if (isObjectLike(value)) {
+    return Object.keys(value)
+      .sort()
+      .reduce<Record<string, unknown>>((result, key) => {
+        result[key] = sortKeys(value[key]);
+        return result;
+      }, {});
+  }
+  return value;
+};
+
+/**
+ * The checksum of the serialized snapshot with sorted keys, so it does not depend on the
+ * order of the keys, which storages like jsonb columns do not keep.
+ */
+const createChecksum = (data: unknown) => {
+  const serialized = jsonCodec.encode(data);
+  return hash(serialized === undefined ? '' : JSON.stringify(sortKeys(JSON.parse(serialized))));
+};
+
+export const isEnvelope = (value: unknown): value is Envelope =>
+  isObjectLike(value) &&
+  typeof value.v === 'number' &&
+  typeof value.checksum === 'string' &&
+  Object.keys(value).sort().join() === envelopeKeys.join();
+
+export const wrapSnapshot = (data: unknown, version: number): Envelope => ({
+  v: version,
+  savedAt: Date.now(),
+  libVersion,
+  checksum: createChecksum(data),
+  data,
+});
+
+/**
+ * Unwraps the value read from the storage. Values written before the envelope was
+ * introduced are bare snapshots, and are treated as version 0. Throws if the
+ * checksum of the snapshot does not match.
+ */
+export const unwrapSnapshot = (value: unknown): Envelope => {
+  if (!isEnvelope(value)) {
+    return { v: 0, savedAt: 0, libVersion: '', checksum: '', data: value };
+  }
+
+  if (createChecksum(value.data) !== value.checksum) {
+    throw new Error('Checksum mismatch. Persisted snapshot is corrupted.');
+  }
+
+  return value;
+};
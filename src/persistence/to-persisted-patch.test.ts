@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import createSnapshotFilter from './create-snapshot-filter';
+import toPersistedPatch from './to-persisted-patch';
+import { Transform } from './types';
+
+describe('toPersistedPatch', () => {
+  const init = { user: { name: '', token: '' }, logs: [] as string[] };
+  const snapshotFilter = createSnapshotFilter({ init, disallowList: ['/user/token'] });
+  const getSnapshot = () => ({ user: { name: 'John', token: 'secret' }, logs: ['first'] });
+
+  it('should strip the paths that are not persisted from the value', () => {
+    expect(
+      toPersistedPatch(
+        { op: 'replace', path: '/user', value: { name: 'John', token: 'secret' } },
+        getSnapshot,
+        snapshotFilter
+      )
+    ).toStrictEqual({ op: 'replace', path: '/user', value: { name: 'John' } });
+  });
+
+  it('should return null for the patches of paths that are not persisted', () => {
+    expect(
+      toPersistedPatch(
+        { op: 'replace', path: '/user/token', value: 's' },
+        getSnapshot,
+        snapshotFilter
+      )
+    ).toBeNull();
+    expect(
+      toPersistedPatch({ op: 'remove', path: '/user/token' }, getSnapshot, snapshotFilter)
+    ).toBeNull();
+  });
+
+  it('should return the removals of persisted paths', () => {
+    expect(
+      toPersistedPatch({ op: 'remove', path: '/logs/0' }, getSnapshot, snapshotFilter)
+    ).toStrictEqual({ op: 'remove', path: '/logs/0' });
+  });
+
+  it('should replace the transformed subtree that contains the patch', () => {
+    const joinLogs: Transform<string[]> = {
+      path: '/logs',
+      in: (logs) => logs.join('\n'),
+      out: (logs) => (logs as string).split('\n'),
+    };
+
+    expect(
+      toPersistedPatch(
+        { op: 'add', path: '/logs/0', value: 'first' },
+        getSnapshot,
+        snapshotFilter,
+        [joinLogs]
+      )
+    ).toStrictEqual({ op: 'replace', path: '/logs', value: 'first' });
+  });
+});
@@ -0,0 +1,51 @@
+import { IJsonPatch } from 'mobx-state-tree';
+import { PersistedSnapshot } from '../migration/types';
+import matchPath, { splitPath } from '../utils/match-path';
+import { getPointer, hasPointer, setPointer } from '../utils/path-selection';
+import { transformIn } from './apply-transforms';
+import { SnapshotFilter } from './create-snapshot-filter';
+import { Transform } from './types';
+
+/**
+ * Returns the patch as it applies to the persisted snapshot, or null if it does not
+ * change it. Transformed subtrees are persisted as a whole, so a patch inside one is
+ * returned as a replacement of the subtree. `getSnapshot` returns the store snapshot
+ * after the patch.
+ */
+const toPersistedPatch = (
+  patch: IJsonPatch,
+  getSnapshot: () => unknown,
+  snapshotFilter: SnapshotFilter,
+  transforms: Transform[] = []
+): IJsonPatch | null => {
+  const segments = splitPath(patch.path);
+  let { op, path, value } = patch;
+
+  for (let i = 0; i < segments.length; i++) {
+    const prefix = segments
+      .slice(0, i)
+      .map((segment) => `/${segment}`)
+      .join('');
+    if (transforms.some((transform) => matchPath(transform.path, prefix))) {
+      op = 'replace';
+      path = prefix;
+      value = getPointer(getSnapshot(), prefix);
+      break;
+    }
+  }
+
+  // The value is filtered and transformed in place, as a partial snapshot.
+  const partial = setPointer({}, path, op === 'remove' ? true : value) as PersistedSnapshot;
+  const filtered = snapshotFilter.toStorage(partial);
+
+  if (!hasPointer(filtered, path)) {
+    return null;
+  }
+  if (op === 'remove') {
+    return { op, path };
+  }
+
+  return { op, path, value: getPointer(transformIn(filtered, transforms), path) };
+};
+
+export default toPersistedPatch;
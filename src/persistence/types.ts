@@ -0,0 +1,70 @@
+import { IJsonPatch } from 'mobx-state-tree';
+
+/**
+ * Imperative control over the persistence of a store, returned as the third
+ * value of `createPersistentStore`.
+ */
+export interface PersistenceController {
+  /** Writes the pending snapshot immediately, and resolves when it is written. */
+  flush: () => Promise<void>;
+  /** Suspends writes, ie. during bulk imports. Changes are still tracked. */
+  pause: () => void;
+  /** Resumes writes, writing the changes made while paused. */
+  resume: () => void;
+  /**
+   * Removes the persisted data and resets the store to its initial snapshot. Turns the
+   * writes back on when the hydration failed, ie. as the data could not be decrypted.
+   */
+  clear: () => Promise<void>;
+  /**
+   * Hydrates the store from the storage again when the previous hydration failed and the
+   * changes are not persisted, ie. once the encryption key is available. Resolves to whether
+   * the changes are persisted now.
+   */
+  retryHydration: () => Promise<boolean>;
+  /** Returns the counts of the writes since the store was created. */
+  getMetrics: () => PersistenceMetrics;
+}
+
+export interface PersistenceMetrics {
+  /** The number of writes to the storage. */
+  writes: number;
+  /** The number of writes skipped, as the persisted snapshot did not change. */
+  skippedWrites: number;
+}
+
+/**
+ * Transforms a subtree of the snapshot between its in-memory and persisted form,
+ * ie. to compress a large array or encode a blob. `in` runs before the snapshot is
+ * written to the storage, and `out` after it is read back, before hydration.
+ *
+ * Use `createTransform` to type the value against the path in the store snapshot.
+ */
+export interface Transform<V = unknown> {
+  /**
+   * JSON pointer pattern (see `matchPath`) of the subtrees to transform. An empty
+   * string transforms the whole snapshot.
+   */
+  path: string;
+  in(value: V, path: string): unknown;
+  out(value: unknown, path: string): V;
+}
+
+export interface JournalOptions {
+  /**
+   * The number of patches in the journal from which on it is compacted into the
+   * persisted snapshot on the next write. default is 100.
+   */
+  compactAfter: number;
+}
+
+/**
+ * The value written to the journal key, the patches recorded since the persisted
+ * snapshot was written.
+ */
+export interface PersistedJournal {
+  /** Checksum of the persisted snapshot the patches apply to. */
+  base: string;
+  /** The patches, in their persisted form. */
+  patches: IJsonPatch[];
+}
@@ -0,0 +1,79 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import createMemoryStorage from '../test-utils/create-memory-storage';
+import createQuarantine from './create-quarantine';
+
+describe('createQuarantine', () => {
+  const payload = { v: 1, data: { name: 'John Doe' } };
+  let memory: ReturnType<typeof createMemoryStorage>;
+
+  beforeEach(() => {
+    memory = createMemoryStorage();
+  });
+
+  it('should return an empty list when nothing is quarantined', async () => {
+    const quarantine = createQuarantine(memory.storage, 'store');
+
+    expect(await quarantine.list()).toStrictEqual([]);
+  });
+
+  it('should move the payload to a timestamped key', async () => {
+    const quarantine = createQuarantine(memory.storage, 'store');
+
+    const entry = await quarantine.add(payload, new Error('Invalid snapshot'));
+
+    expect(entry.key).toBe(`store:quarantine:${entry.id}`);
+    expect(entry.reason).toBe('Invalid snapshot');
+    expect(memory.items.get(entry.key)).toStrictEqual(payload);
+    expect(await quarantine.list()).toStrictEqual([entry]);
+    expect(await quarantine.get(entry.id)).toStrictEqual(payload);
+  });
+
+  it('should list the entries newest first with unique ids', async () => {
+    const quarantine = createQuarantine(memory.storage, 'store');
+
+    const first = await quarantine.add(payload, 'first');
+    const second = await quarantine.add(payload, 'second');
+
+    expect(first.id).not.toBe(second.id);
+    expect(await quarantine.list()).toStrictEqual([second, first]);
+  });
+
+  it('should remove the oldest entries beyond the retention count', async () => {
+    const quarantine = createQuarantine(memory.storage, 'store', { retention: 2 });
+
+    const first = await quarantine.add(payload, 'first');
+    const second = await quarantine.add(payload, 'second');
+    const third = await quarantine.add(payload, 'third');
+
+    expect(await quarantine.list()).toStrictEqual([third, second]);
+    expect(memory.items.has(first.key)).toBe(false);
+  });
+
+  it('should restore the payload to the storage key', async () => {
+    const quarantine = createQuarantine(memory.storage, 'store');
+    const entry = await quarantine.add(payload, 'error');
+    memory.items.set('store', { v: 1, data: { name: 'Jane Doe' } });
+
+    await quarantine.restore(entry.id);
+
+    expect(memory.items.get('store')).toStrictEqual(payload);
+    expect(memory.items.has(entry.key)).toBe(false);
+    expect(await quarantine.list()).toStrictEqual([]);
+  });
+
+  it('should remove a quarantined payload', async () => {
+    const quarantine = createQuarantine(memory.storage, 'store');
+    const entry = await quarantine.add(payload, 'error');
+
+    await quarantine.remove(entry.id);
+
+    expect(memory.items.has(entry.key)).toBe(false);
+    expect(await quarantine.list()).toStrictEqual([]);
+  });
+
+  it('should throw for unknown entries', async () => {
+    const quarantine = createQuarantine(memory.storage, 'store');
+
+    await expect(quarantine.restore('unknown')).rejects.toThrowError(/does not exist/);
+  });
+});
@@ -0,0 +1,106 @@
+import { StorageOptions } from '../storage/types';
+import { QuarantineEntry, QuarantineOptions } from './types';
+
+const defaultOptions: QuarantineOptions = {
+  retention: 3,
+};
+
+/**
+ * Creates a quarantine for the payloads of a storage key that failed to hydrate.
+ * Quarantined payloads are moved to timestamped backup keys (`<storageKey>:quarantine:<id>`),
+ * and indexed under `<storageKey>:quarantine`, as the storage can not list its keys.
+ *
+ * @example
+ *
+ * ```ts
+ * import { createQuarantine } from 'mst-persistent-store';
+ *
+ * const quarantine = createQuarantine(defaultStorage, 'persistentStore');
+ * const [latest] = await quarantine.list();
+ * // The restored payload is hydrated on the next start.
+ * await quarantine.restore(latest.id);
+ * ```
+ */
+const createQuarantine = (
+  storage: StorageOptions,
+  storageKey: string,
+  options?: Partial<QuarantineOptions>
+) => {
+  const { retention } = options ? { ...defaultOptions, ...options } : defaultOptions;
+  const indexKey = `${storageKey}:quarantine`;
+
+  const writeIndex = (entries: QuarantineEntry[]) => storage.setItem(indexKey, entries);
+
+  /** Lists the quarantined payloads, newest first. */
+  const list = async (): Promise<QuarantineEntry[]> => {
+    const entries = await storage.getItem(indexKey);
+    return Array.isArray(entries) ? entries : [];
+  };
+
+  const find = async (id: string) => {
+    const entries = await list();
+    const entry = entries.find((entry) => entry.id === id);
+    if (!entry) {
+      throw new Error(`Quarantine entry ${id} does not exist.`);
+    }
+    return { entry, entries };
+  };
+
+  /** Moves a payload of the storage key to the quarantine. */
+  const add = async (payload: unknown, error: unknown): Promise<QuarantineEntry> => {
+    const entries = await list();
+    const quarantinedAt = Date.now();
+    let id = String(quarantinedAt);
+
+    // Multiple payloads can be quarantined in the same millisecond.
+    for (let i = 1; entries.some((entry) => entry.id === id); i++) {
+      id = `${quarantinedAt}-${i}`;
+    }
+
+    const entry: QuarantineEntry = {
+      id,
+      key: `${indexKey}:${id}`,
+      quarantinedAt,
+      reason: error instanceof Error ? error.message : String(error),
+    };
+
+    await storage.setItem(entry.key, payload);
+
+    const retained = [entry, ...entries];
+    const expired = retained.splice(retention);
+
+    await writeIndex(retained);
+    await Promise.all(expired.map(({ key }) => storage.removeItem(key)));
+
+    return entry;
+  };
+
+  /** Returns the quarantined payload as it was read from the storage key. */
+  const get = async (id: string): Promise<unknown> => {
+    const { entry } = await find(id);
+    return storage.getItem(entry.key);
+  };
+
+  /** Removes a quarantined payload. */
+  const remove = async (id: string): Promise<void> => {
+    const { entry, entries } = await find(id);
+    await writeIndex(entries.filter((item) => item !== entry));
+    await storage.removeItem(entry.key);
+  };
+
+  /**
+   * Moves a quarantined payload back to the storage key, overwriting its current
+   * value. It is hydrated the next time the store is hydrated.
+   */
+  const restore = async (id: string): Promise<void> => {
+    const payload = await get(id);
+    await storage.setItem(storageKey, payload);
+    await remove(id);
+  };
+
+  return { list, add, get, remove, restore };
+};
+
+export type Quarantine = ReturnType<typeof createQuarantine>;
+
+export default createQuarantine;
@@ -0,0 +1,18 @@
+export interface QuarantineEntry {
+  /** Unique id of the entry, used to restore or remove it. */
+  id: string;
+  /** The storage key the quarantined payload is stored under. */
+  key: string;
+  /** Timestamp (ms) of when the payload was quarantined. */
+  quarantinedAt: number;
+  /** Message of the error that caused the payload to be quarantined. */
+  reason: string;
+}
+
+export interface QuarantineOptions {
+  /**
+   * The maximum number of quarantined payloads to keep. When exceeded, the oldest
+   * ones are removed. default is 3.
+   */
+  retention: number;
+}
@@ -0,0 +1,155 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import createMemoryStorage from '../test-utils/create-memory-storage';
+import chunkedStorage from './chunked-storage';
+import { CorruptedDataError } from './corrupted-data-error';
+import { ChunkManifest } from './types';
+
+describe('chunkedStorage', () => {
+  const small = { name: 'John' };
+  const large = { name: 'John Doe', bio: 'Lorem ipsum dolor sit amet. '.repeat(4) };
+  let memory: ReturnType<typeof createMemoryStorage>;
+
+  beforeEach(() => {
+    memory = createMemoryStorage();
+  });
+
+  const chunkKeys = () => [...memory.items.keys()].filter((key) => key.includes(':chunk:'));
+
+  it('should store values up to the chunk size as is', async () => {
+    const storage = chunkedStorage(memory.storage, { chunkSize: 32 });
+
+    await storage.setItem('store', small);
+
+    expect([...memory.items.keys()]).toStrictEqual(['store']);
+    expect(await storage.getItem('store')).toStrictEqual(small);
+  });
+
+  it('should split larger values into chunks with a manifest', async () => {
+    const storage = chunkedStorage(memory.storage, { chunkSize: 32 });
+
+    await storage.setItem('store', large);
+
+    const manifest = memory.items.get('store') as ChunkManifest;
+    expect(manifest.count).toBe(Math.ceil(JSON.stringify(large).length / 32));
+    expect(chunkKeys()).toHaveLength(manifest.count);
+    expect(chunkKeys().every((key) => key.startsWith(`store:chunk:${manifest.id}:`))).toBe(true);
+    expect(await storage.getItem('store')).toStrictEqual(large);
+  });
+
+  it('should write the manifest after the chunks', async () => {
+    const written: string[] = [];
+    const storage = chunkedStorage(
+      {
+        ...memory.storage,
+        setItem: (key, value) => {
+          written.push(key);
+          return memory.storage.setItem(key, value);
+        },
+      },
+      { chunkSize: 32 }
+    );
+
+    await storage.setItem('store', large);
+
+    expect(written.indexOf('store')).toBe(written.length - 1);
+  });
+
+  it('should keep the previous value when a write is interrupted', async () => {
+    const storage = chunkedStorage(memory.storage, { chunkSize: 32 });
+    await storage.setItem('store', large);
+
+    let writes = 0;
+    const failing = chunkedStorage(
+      {
+        ...memory.storage,
+        setItem: (key, value) => {
+          if (++writes === 3) {
+            throw new Error('Write failed');
+          }
+          return memory.storage.setItem(key, value);
+        },
+      },
+      { chunkSize: 32 }
+    );
+
+    await expect(failing.setItem('store', { ...large, name: 'Jane Doe' })).rejects.toThrow(
+      'Write failed'
+    );
+    expect(await storage.getItem('store')).toStrictEqual(large);
+  });
+
+  it('should remove the stale chunks of previous and interrupted writes', async () => {
+    const storage = chunkedStorage(memory.storage, { chunkSize: 32 });
+    await storage.setItem('store', large);
+
+    const failing = chunkedStorage(
+      {
+        ...memory.storage,
+        setItem: (key, value) => {
+          if (key === 'store') {
+            throw new Error('Write failed');
+          }
+          return memory.storage.setItem(key, value);
+        },
+      },
+      { chunkSize: 32 }
+    );
+    await expect(failing.setItem('store', large)).rejects.toThrow('Write failed');
+
+    await storage.setItem('store', { ...large, name: 'Jane Doe' });
+
+    const manifest = memory.items.get('store') as ChunkManifest;
+    expect(chunkKeys()).toHaveLength(manifest.count);
+    expect(memory.items.has('store:chunk-writes')).toBe(false);
+
+    await storage.setItem('store', small);
+
+    expect([...memory.items.keys()]).toStrictEqual(['store']);
+  });
+
+  it('should remove the value with its chunks', async () => {
+    const storage = chunkedStorage(memory.storage, { chunkSize: 32 });
+
+    await storage.setItem('store', large);
+    await storage.removeItem('store');
+
+    expect(memory.items.size).toBe(0);
+    expect(await storage.getItem('store')).toBeNull();
+  });
+
+  it('should not split surrogate pairs', async () => {
+    const storage = chunkedStorage(memory.storage, { chunkSize: 4 });
+    const value = '👋👋👋👋👋';
+
+    await storage.setItem('store', value);
+
+    expect(
+      chunkKeys().every((key) => !/[\ud800-\udbff]$/.test(memory.items.get(key) as string))
+    ).toBe(true);
+    expect(await storage.getItem('store')).toBe(value);
+  });
+
+  it('should throw when a chunk is missing', async () => {
+    const storage = chunkedStorage(memory.storage, { chunkSize: 32 });
+
+    await storage.setItem('store', large);
+    memory.items.delete(chunkKeys()[1]);
+
+    await expect(storage.getItem('store')).rejects.toThrow(
+      new CorruptedDataError('Chunk 1 of store is missing.', null)
+    );
+  });
+
+  it('should throw a corrupted data error with the text when it can not be parsed', async () => {
+    const storage = chunkedStorage(memory.storage, { chunkSize: 32 });
+
+    await storage.setItem('store', large);
+    const [first] = chunkKeys();
+    memory.items.set(first, `}${(memory.items.get(first) as string).slice(1)}`);
+
+    await expect(storage.getItem('store')).rejects.toBeInstanceOf(CorruptedDataError);
+    await expect(storage.getItem('store')).rejects.toMatchObject({
+      payload: expect.stringMatching(/^}/),
+    });
+  });
+});
@@ -0,0 +1,153 @@
+import jsonCodec from '../codec/json-codec';
+import isObjectLike from '../utils/is-object-like';
+import { CorruptedDataError, decodeOrThrow } from './corrupted-data-error';
+import { ChunkedStorageOptions, ChunkManifest, StorageOptions } from './types';
+
+type ChunkWrite = Pick<ChunkManifest, 'id' | 'count'>;
+
+const isManifest = (value: unknown): value is ChunkManifest =>
+  isObjectLike(value) &&
+  Object.keys(value).length === 3 &&
+  typeof value.id === 'string' &&
+  typeof value.count === 'number' &&
+  typeof value.length === 'number';
+
+/**
+ * Splits the text into chunks of the size, without splitting surrogate pairs.
+ */
+const splitText = (text: string, size: number) => {
+  const chunks: string[] = [];
+
+  for (let start = 0; start < text.length; ) {
+    let end = Math.min(start + size, text.length);
+    const last = text.charCodeAt(end - 1);
+    if (end < text.length && end - start > 1 && last >= 0xd800 && last <= 0xdbff) {
+      end--;
+    }
+    chunks.push(text.slice(start, end));
+    start = end;
+  }
+
+  return chunks;
+};
+
+const createWriteId = () => `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Wraps a storage so values larger than the chunk size are split into multiple keys,
+ * to stay below the per-key size limit of the storage.
+ *
+ * The chunks of every write are written to new keys, and the manifest pointing to them is
+ * written to the key last. So a crash in the middle of a write leaves the previous value
+ * intact. The chunks of the previous value are removed after the manifest is written, the
+ * chunks of interrupted writes on the next write.
+ *
+ * @example
+ *
+ * ```ts
+ * import { chunkedStorage } from 'mst-persistent-store';
+ * import defaultStorage from 'mst-persistent-store/dist/storage';
+ *
+ * const storage = chunkedStorage(defaultStorage, { chunkSize: 256 * 1024 });
+ * ```
+ */
+const chunkedStorage = (
+  inner: StorageOptions,
+  options?: Partial<ChunkedStorageOptions>
+): StorageOptions => {
+  const { chunkSize = 512 * 1024, codec = jsonCodec } = options ?? {};
+
+  const chunkKey = (key: string, id: string, index: number) => `${key}:chunk:${id}:${index}`;
+  // The writes in progress, so their chunks can be removed if they are interrupted.
+  const writesKey = (key: string) => `${key}:chunk-writes`;
+
+  const removeChunks = (key: string, { id, count }: ChunkWrite) =>
+    Promise.all(
+      Array.from({ length: count }, (_, index) => inner.removeItem(chunkKey(key, id, index)))
+    );
+
+  const getWrites = async (key: string): Promise<ChunkWrite[]> => {
+    const writes = await inner.getItem(writesKey(key));
+    return Array.isArray(writes) ? writes : [];
+  };
+
+  /** Removes the chunks that are not referenced by the current value of the key. */
+  const collectGarbage = async (key: string, previous: unknown, writes: ChunkWrite[]) => {
+    const stale = isManifest(previous) ? [...writes, previous] : writes;
+    await Promise.all(stale.map((write) => removeChunks(key, write)));
+    await inner.removeItem(writesKey(key));
+  };
+
+  const getItem = async (key: string) => {
+    const item = await inner.getItem(key);
+
+    if (!isManifest(item)) {
+      return item;
+    }
+
+    const chunks = await Promise.all(
+      Array.from({ length: item.count }, (_, index) => inner.getItem(chunkKey(key, item.id, index)))
+    );
+    const missing = chunks.findIndex((chunk) => typeof chunk !== 'string');
+
+    if (missing !== -1) {
+      throw new CorruptedDataError(`Chunk ${missing} of ${key} is missing.`, {
+        manifest: item,
+        chunks,
+      });
+    }
+
+    const text = chunks.join('');
+
+    if (text.length !== item.length) {
+      throw new CorruptedDataError(`Chunks of ${key} do not match the manifest.`, text);
+    }
+
+    return decodeOrThrow(codec.decode, text, key);
+  };
+
+  const setItem = async (key: string, value: unknown) => {
+    const previous = await inner.getItem(key);
+    const writes = await getWrites(key);
+    const text = codec.encode(value);
+
+    if (text === undefined || text.length <= chunkSize) {
+      await inner.setItem(key, value);
+      await collectGarbage(key, previous, writes);
+      return;
+    }
+
+    const chunks = splitText(text, chunkSize);
+    const manifest: ChunkManifest = {
+      id: createWriteId(),
+      count: chunks.length,
+      length: text.length,
+    };
+
+    await inner.setItem(writesKey(key), [...writes, { id: manifest.id, count: manifest.count }]);
+
+    for (let index = 0; index < chunks.length; index++) {
+      await inner.setItem(chunkKey(key, manifest.id, index), chunks[index]);
+    }
+
+    await inner.setItem(key, manifest);
+    await collectGarbage(key, previous, writes);
+  };
+
+  const removeItem = async (key: string) => {
+    const previous = await inner.getItem(key);
+    const writes = await getWrites(key);
+
+    await inner.removeItem(key);
+    await collectGarbage(key, previous, writes);
+  };
+
+  return {
+    getItem,
+    setItem,
+    removeItem,
+    subscribe: inner.subscribe?.bind(inner),
+  };
+};
+
+export default chunkedStorage;
@@ -0,0 +1,88 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import createMemoryStorage from '../test-utils/create-memory-storage';
+import compressedStorage, { COMPRESSED_HEADER } from './compressed-storage';
+import { CorruptedDataError } from './corrupted-data-error';
+
+describe('compressedStorage', () => {
+  const small = { name: 'John Doe' };
+  const large = {
+    entities: Array.from({ length: 200 }, (_, i) => ({ id: i, createdAt: new Date(i) })),
+  };
+  let memory: ReturnType<typeof createMemoryStorage>;
+
+  beforeEach(() => {
+    memory = createMemoryStorage();
+  });
+
+  it('should store values below the threshold as is', async () => {
+    const storage = compressedStorage(memory.storage, { threshold: 1024 });
+
+    await storage.setItem('store', small);
+
+    expect(memory.items.get('store')).toStrictEqual(small);
+    expect(await storage.getItem('store')).toStrictEqual(small);
+  });
+
+  it('should compress values above the threshold with a header', async () => {
+    const storage = compressedStorage(memory.storage, { threshold: 1024 });
+
+    await storage.setItem('store', large);
+
+    const stored = memory.items.get('store') as string;
+    expect(stored.startsWith(`${COMPRESSED_HEADER}lzw:`)).toBe(true);
+    expect(stored.length).toBeLessThan(JSON.stringify(large).length);
+    expect(await storage.getItem('store')).toStrictEqual(large);
+  });
+
+  it('should read compressed and uncompressed values side by side', async () => {
+    const storage = compressedStorage(memory.storage, { threshold: 1024 });
+
+    await storage.setItem('small', small);
+    await storage.setItem('large', large);
+
+    expect(await storage.getItem('small')).toStrictEqual(small);
+    expect(await storage.getItem('large')).toStrictEqual(large);
+    expect(await storage.getItem('missing')).toBeNull();
+  });
+
+  it('should use a custom algorithm', async () => {
+    const storage = compressedStorage(memory.storage, {
+      threshold: 0,
+      algorithm: {
+        name: 'reverse',
+        compress: (text) => text.split('').reverse().join(''),
+        decompress: (text) => text.split('').reverse().join(''),
+      },
+    });
+
+    await storage.setItem('store', small);
+
+    expect(memory.items.get('store')).toBe(`${COMPRESSED_HEADER}reverse:}"eoD nhoJ":"eman"{`);
+    expect(await storage.getItem('store')).toStrictEqual(small);
+  });
+
+  it('should throw when a value is compressed with another algorithm', async () => {
+    await compressedStorage(memory.storage, { threshold: 0 }).setItem('store', small);
+    const storage = compressedStorage(memory.storage, {
+      algorithm: { name: 'other', compress: (text) => text, decompress: (text) => text },
+    });
+
+    await expect(storage.getItem('store')).rejects.toThrow(
+      'Value is compressed with lzw, but the storage uses other.'
+    );
+  });
+
+  it('should throw a corrupted data error when a value can not be decoded', async () => {
+    const storage = compressedStorage(memory.storage, {
+      threshold: 0,
+      algorithm: { name: 'other', compress: (text) => text, decompress: (text) => text.slice(1) },
+    });
+
+    await storage.setItem('store', small);
+
+    await expect(storage.getItem('store')).rejects.toBeInstanceOf(CorruptedDataError);
+    await expect(storage.getItem('store')).rejects.toMatchObject({
+      payload: memory.items.get('store'),
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import jsonCodec from '../codec/json-codec';
+import { compress, decompress } from '../utils/lzw';
+import { CorruptedDataError } from './corrupted-data-error';
+import { CompressedStorageOptions, Compressor, StorageOptions } from './types';
+
+/**
+ * Prefix of compressed values, followed by the name of the algorithm and a colon.
+ */
+export const COMPRESSED_HEADER = 'mstps:compressed:';
+
+const lzwCompressor: Compressor = { name: 'lzw', compress, decompress };
+
+/**
+ * Wraps a storage so large values are compressed before they are written to it. Values
+ * below the threshold are written as is, compressed values are prefixed with a header, so
+ * both can be read back.
+ *
+ * To combine it with `encryptedStorage`, compress first: `compressedStorage(encryptedStorage(storage, keys))`.
+ *
+ * @example
+ *
+ * ```ts
+ * import { compressedStorage } from 'mst-persistent-store';
+ * import defaultStorage from 'mst-persistent-store/dist/storage';
+ *
+ * const storage = compressedStorage(defaultStorage, { threshold: 64 * 1024 });
+ * ```
+ */
+const compressedStorage = (
+  inner: StorageOptions,
+  options?: Partial<CompressedStorageOptions>
+): StorageOptions => {
+  const { algorithm = 'lzw', threshold = 8192, codec = jsonCodec } = options ?? {};
+  const compressor = algorithm === 'lzw' ? lzwCompressor : algorithm;
+  const header = `${COMPRESSED_HEADER}${compressor.name}:`;
+
+  const getItem = async (key: string) => {
+    const item = await inner.getItem(key);
+
+    if (typeof item !== 'string' || !item.startsWith(COMPRESSED_HEADER)) {
+      return item;
+    }
+    if (!item.startsWith(header)) {
+      const name = item.slice(
+        COMPRESSED_HEADER.length,
+        item.indexOf(':', COMPRESSED_HEADER.length)
+      );
+      throw new Error(`Value is compressed with ${name}, but the storage uses ${compressor.name}.`);
+    }
+
+    try {
+      return codec.decode(compressor.decompress(item.slice(header.length)));
+    } catch (error) {
+      throw new CorruptedDataError(`Value of ${key} can not be decompressed.`, item, error);
+    }
+  };
+
+  const setItem = async (key: string, value: unknown) => {
+    const text = codec.encode(value);
+
+    if (text === undefined || text.length < threshold) {
+      await inner.setItem(key, value);
+    } else {
+      await inner.setItem(key, header + compressor.compress(text));
+    }
+  };
+
+  const removeItem = (key: string) => inner.removeItem(key);
+
+  return {
+    getItem,
+    setItem,
+    removeItem,
+    subscribe: inner.subscribe?.bind(inner),
+  };
+};
+
+export default compressedStorage;
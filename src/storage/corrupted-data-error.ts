@@ -0,0 +1,26 @@
+/**
+ * Thrown by the storages when a value is corrupted and can not be read anymore, ie. a
+ * chunk is missing or the serialized value can not be parsed. The store throws the data
+ * away, or moves the `payload` to the quarantine when enabled, like the data that fails
+ * to hydrate.
+ */
+export class CorruptedDataError extends Error {
+  constructor(
+    message: string,
+    /** The value as it was read from the storage. */
+    readonly payload: unknown,
+    readonly cause?: unknown
+  ) {
+    super(message);
+    this.name = 'CorruptedDataError';
+  }
+}
+
+/** Decodes the text, throwing a `CorruptedDataError` with the text if it can not be parsed. */
+export const decodeOrThrow = (decode: (text: string) => unknown, text: string, key: string) => {
+  try {
+    return decode(text);
+  } catch (error) {
+    throw new CorruptedDataError(`Value of ${key} can not be decoded.`, text, error);
+  }
+};
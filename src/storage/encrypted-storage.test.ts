@@ -0,0 +1,143 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import createMemoryStorage from '../test-utils/create-memory-storage';
+import encryptedStorage, { DecryptionError } from './encrypted-storage';
+import { EncryptedValue, KeyProvider } from './types';
+
+const generateKey = () =>
+  crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+
+describe('encryptedStorage', () => {
+  const value = { name: 'John Doe', token: 'secret', lastLogin: new Date(0) };
+  const keys: Record<string, CryptoKey> = {};
+  let currentKeyId: string;
+  let keyProvider: KeyProvider;
+  let memory: ReturnType<typeof createMemoryStorage>;
+
+  beforeAll(async () => {
+    keys.v1 = await generateKey();
+    keys.v2 = await generateKey();
+  });
+
+  beforeEach(() => {
+    currentKeyId = 'v1';
+    keyProvider = {
+      getCurrentKey: () => ({ id: currentKeyId, key: keys[currentKeyId] }),
+      getKey: (id) => keys[id] ?? null,
+    };
+    memory = createMemoryStorage();
+  });
+
+  it('should store the value encrypted with the key id and iv', async () => {
+    const storage = encryptedStorage(memory.storage, keyProvider);
+
+    await storage.setItem('store', value);
+
+    const stored = memory.items.get('store') as EncryptedValue;
+    expect(Object.keys(stored).sort()).toStrictEqual(['ct', 'iv', 'kid']);
+    expect(stored.kid).toBe('v1');
+    expect(stored.ct).not.toContain('secret');
+    expect(await storage.getItem('store')).toStrictEqual(value);
+  });
+
+  it('should use a new iv for every write', async () => {
+    const storage = encryptedStorage(memory.storage, keyProvider);
+
+    await storage.setItem('store', value);
+    const first = memory.items.get('store') as EncryptedValue;
+    await storage.setItem('store', value);
+    const second = memory.items.get('store') as EncryptedValue;
+
+    expect(first.iv).not.toBe(second.iv);
+    expect(first.ct).not.toBe(second.ct);
+  });
+
+  it('should decrypt with the rotated key and encrypt with the current key', async () => {
+    const storage = encryptedStorage(memory.storage, keyProvider);
+
+    await storage.setItem('store', value);
+    currentKeyId = 'v2';
+
+    expect(await storage.getItem('store')).toStrictEqual(value);
+
+    await storage.setItem('store', value);
+
+    expect((memory.items.get('store') as EncryptedValue).kid).toBe('v2');
+    expect(await storage.getItem('store')).toStrictEqual(value);
+  });
+
+  it('should throw a decryption error when the key is not available', async () => {
+    await encryptedStorage(memory.storage, keyProvider).setItem('store', value);
+    const storage = encryptedStorage(memory.storage, { ...keyProvider, getKey: () => null });
+
+    await expect(storage.getItem('store')).rejects.toThrow(DecryptionError);
+    await expect(storage.getItem('store')).rejects.toThrow('Encryption key v1 is not available.');
+  });
+
+  it('should throw a decryption error when the ciphertext is tampered with', async () => {
+    const storage = encryptedStorage(memory.storage, keyProvider);
+
+    await storage.setItem('store', value);
+    const stored = memory.items.get('store') as EncryptedValue;
+    memory.items.set('store', { ...stored, ct: `AAAA${stored.ct.slice(4)}` });
+
+    await expect(storage.getItem('store')).rejects.toThrow(DecryptionError);
+  });
+
+  it('should throw a decryption error when the value is not encrypted', async () => {
+    const storage = encryptedStorage(memory.storage, keyProvider);
+
+    memory.items.set('store', { name: 'John Doe' });
+
+    await expect(storage.getItem('store')).rejects.toThrow('Value of store is not encrypted.');
+    expect(await storage.getItem('missing')).toBeNull();
+  });
+
+  it('should read values that are not encrypted as is when allowed', async () => {
+    const storage = encryptedStorage(memory.storage, keyProvider, { allowPlaintext: true });
+
+    memory.items.set('store', { name: 'John Doe' });
+
+    expect(await storage.getItem('store')).toStrictEqual({ name: 'John Doe' });
+  });
+
+  it('should use the injected crypto implementation', async () => {
+    let encrypted = 0;
+    const storage = encryptedStorage(memory.storage, keyProvider, {
+      crypto: {
+        getRandomValues: (array) => crypto.getRandomValues(array),
+        subtle: {
+          encrypt: (...args: Parameters<SubtleCrypto['encrypt']>) => {
+            encrypted++;
+            return crypto.subtle.encrypt(...args);
+          },
+          decrypt: (...args: Parameters<SubtleCrypto['decrypt']>) => crypto.subtle.decrypt(...args),
+        } as SubtleCrypto,
+      },
+    });
+
+    await storage.setItem('store', value);
+
+    expect(encrypted).toBe(1);
+    expect(await storage.getItem('store')).toStrictEqual(value);
+  });
+
+  it('should remove the value from the inner storage', async () => {
+    const storage = encryptedStorage(memory.storage, keyProvider);
+
+    await storage.setItem('store', value);
+    await storage.removeItem('store');
+
+    expect(memory.items.has('store')).toBe(false);
+  });
+
+  it('should subscribe to the changes of the inner storage', () => {
+    const unsubscribe = () => undefined;
+    const subscribe = vi.fn(() => unsubscribe);
+    const listener = () => undefined;
+    const storage = encryptedStorage({ ...memory.storage, subscribe }, keyProvider);
+
+    expect(storage.subscribe!('store', listener)).toBe(unsubscribe);
+    expect(subscribe).toHaveBeenCalledWith('store', listener);
+    expect(encryptedStorage(memory.storage, keyProvider).subscribe).toBeUndefined();
+  });
+});
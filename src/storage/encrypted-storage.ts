@@ -0,0 +1,126 @@
+import jsonCodec from '../codec/json-codec';
+import { fromBase64, toBase64 } from '../utils/base64';
+import isObjectLike from '../utils/is-object-like';
+import { CorruptedDataError } from './corrupted-data-error';
+import { EncryptedStorageOptions, EncryptedValue, KeyProvider, StorageOptions } from './types';
+
+const IV_LENGTH = 12;
+
+/**
+ * Thrown by the encrypted storage when a value can not be decrypted, ie. the key is
+ * missing, the ciphertext is tampered with or the value is not encrypted. The store keeps
+ * the data, as the key might only be missing for now, and does not persist the changes.
+ */
+export class DecryptionError extends Error {
+  constructor(
+    message: string,
+    readonly cause?: unknown
+  ) {
+    super(message);
+    this.name = 'DecryptionError';
+  }
+}
+
+const isEncryptedValue = (value: unknown): value is EncryptedValue =>
+  isObjectLike(value) &&
+  typeof value.kid === 'string' &&
+  typeof value.iv === 'string' &&
+  typeof value.ct === 'string';
+
+/**
+ * Wraps a storage so the values are encrypted with AES-GCM before they are written to it.
+ * The id of the key and the initialization vector are stored with the ciphertext, so the
+ * key can be rotated. New values are always encrypted with the current key.
+ *
+ * Values that are not encrypted throw a `DecryptionError`, unless `allowPlaintext` is set to
+ * migrate the data written before the storage was wrapped.
+ *
+ * @example
+ *
+ * ```ts
+ * import { encryptedStorage } from 'mst-persistent-store';
+ * import defaultStorage from 'mst-persistent-store/dist/storage';
+ *
+ * const storage = encryptedStorage(defaultStorage, {
+ *   getCurrentKey: () => ({ id: 'v2', key: keys.v2 }),
+ *   getKey: (id) => keys[id] ?? null,
+ * });
+ * ```
+ */
+const encryptedStorage = (
+  inner: StorageOptions,
+  keyProvider: KeyProvider,
+  options?: Partial<EncryptedStorageOptions>
+): StorageOptions => {
+  const { crypto = globalThis.crypto, codec = jsonCodec, allowPlaintext = false } = options ?? {};
+
+  if (!crypto?.subtle) {
+    throw new Error('WebCrypto is not available. Pass a crypto implementation to the storage.');
+  }
+
+  const encrypt = async (value: unknown): Promise<EncryptedValue> => {
+    const { id, key } = await keyProvider.getCurrentKey();
+    const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+    const plaintext = new TextEncoder().encode(codec.encode(value));
+    const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, plaintext);
+
+    return { kid: id, iv: toBase64(iv), ct: toBase64(new Uint8Array(ciphertext)) };
+  };
+
+  const decrypt = async (value: EncryptedValue) => {
+    const { kid, iv, ct } = value;
+    const key = await keyProvider.getKey(kid);
+
+    if (!key) {
+      throw new DecryptionError(`Encryption key ${kid} is not available.`);
+    }
+
+    let plaintext: ArrayBuffer;
+
+    try {
+      plaintext = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: fromBase64(iv) },
+        key,
+        fromBase64(ct)
+      );
+    } catch (error) {
+      throw new DecryptionError(`Failed to decrypt value encrypted with key ${kid}.`, error);
+    }
+
+    try {
+      return codec.decode(new TextDecoder().decode(plaintext));
+    } catch (error) {
+      throw new CorruptedDataError(
+        `Value encrypted with key ${kid} can not be decoded.`,
+        value,
+        error
+      );
+    }
+  };
+
+  const getItem = async (key: string) => {
+    const item = await inner.getItem(key);
+    if (isEncryptedValue(item)) {
+      return decrypt(item);
+    }
+    if (item !== null && item !== undefined && !allowPlaintext) {
+      throw new DecryptionError(`Value of ${key} is not encrypted.`);
+    }
+    return item;
+  };
+
+  const setItem = async (key: string, value: unknown) => {
+    await inner.setItem(key, await encrypt(value));
+  };
+
+  const removeItem = (key: string) => inner.removeItem(key);
+
+  return {
+    getItem,
+    setItem,
+    removeItem,
+    subscribe: inner.subscribe?.bind(inner),
+  };
+};
+
+export default encryptedStorage;
@@ -1,19 +1,26 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import jsonCodec from '../codec/json-codec';
+import { Codec } from '../codec/types';
+import { decodeOrThrow } from './corrupted-data-error';
+import { StorageOptions } from './types';
 
-const getItem = async (key: string) => {
-  const item = await AsyncStorage.getItem(key);
-  return item ? JSON.parse(item) : null;
-};
+export const createDefaultStorage = (codec: Codec = jsonCodec): StorageOptions => {
+  const getItem = async (key: string) => {
+    const item = await AsyncStorage.getItem(key);
+    return item ? decodeOrThrow(codec.decode, item, key) : null;
+  };
 
-const setItem = (key: string, value: unknown) =>
-  AsyncStorage.setItem(key, JSON.stringify(value));
+  const setItem = (key: string, value: unknown) => AsyncStorage.setItem(key, codec.encode(value));
 
-const removeItem = (key: string) => AsyncStorage.removeItem(key);
+  const removeItem = (key: string) => AsyncStorage.removeItem(key);
 
-const defaultStorage = {
-  getItem,
-  setItem,
-  removeItem,
+  return {
+    getItem,
+    setItem,
+    removeItem,
+  };
 };
 
+const defaultStorage = createDefaultStorage();
+
 export default defaultStorage;
@@ -0,0 +1,91 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createDefaultStorage } from './index';
+
+const items = vi.hoisted(() => new Map<string, unknown>());
+
+vi.mock('localforage', () => ({
+  default: {
+    getItem: async (key: string) => items.get(key) ?? null,
+    setItem: async (key: string, value: unknown) => void items.set(key, value),
+    removeItem: async (key: string) => void items.delete(key),
+  },
+}));
+
+/** Delivers the messages to the other channels with the same name, synchronously. */
+class FakeBroadcastChannel {
+  static channels: FakeBroadcastChannel[] = [];
+  onmessage: ((event: { data: unknown }) => void) | null = null;
+
+  constructor(readonly name: string) {
+    FakeBroadcastChannel.channels.push(this);
+  }
+
+  postMessage(data: unknown) {
+    FakeBroadcastChannel.channels
+      .filter((channel) => channel !== this && channel.name === this.name)
+      .forEach((channel) => channel.onmessage?.({ data }));
+  }
+}
+
+describe('createDefaultStorage', () => {
+  beforeEach(() => {
+    items.clear();
+    FakeBroadcastChannel.channels = [];
+    vi.stubGlobal('BroadcastChannel', FakeBroadcastChannel);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should write the values encoded with the codec', async () => {
+    const storage = createDefaultStorage();
+
+    await storage.setItem('store', { lastLogin: new Date(0) });
+
+    expect(items.get('store')).toBeTypeOf('string');
+    expect(await storage.getItem('store')).toStrictEqual({ lastLogin: new Date(0) });
+  });
+
+  it('should notify the subscribers of the key about the changes of the other tabs', async () => {
+    const tab = createDefaultStorage();
+    const otherTab = createDefaultStorage();
+    const listener = vi.fn();
+    const otherListener = vi.fn();
+    tab.subscribe!('store', listener);
+    tab.subscribe!('other', otherListener);
+
+    await otherTab.setItem('store', { name: 'John' });
+    await otherTab.removeItem('store');
+
+    expect(listener).toHaveBeenCalledTimes(2);
+    expect(otherListener).not.toHaveBeenCalled();
+  });
+
+  it('should not notify the subscribers about its own changes', async () => {
+    const storage = createDefaultStorage();
+    const listener = vi.fn();
+    storage.subscribe!('store', listener);
+
+    await storage.setItem('store', { name: 'John' });
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('should unsubscribe the listener', async () => {
+    const tab = createDefaultStorage();
+    const listener = vi.fn();
+    const unsubscribe = tab.subscribe!('store', listener);
+
+    unsubscribe();
+    await createDefaultStorage().setItem('store', { name: 'John' });
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('should not open a channel until it is used', () => {
+    createDefaultStorage();
+
+    expect(FakeBroadcastChannel.channels).toHaveLength(0);
+  });
+});
@@ -1,15 +1,68 @@
 import localforage from 'localforage';
+import jsonCodec from '../codec/json-codec';
+import { Codec } from '../codec/types';
+import isObjectLike from '../utils/is-object-like';
+import { decodeOrThrow } from './corrupted-data-error';
+import { StorageOptions } from './types';
 
-const getItem = (key: string) => localforage.getItem(key);
+const CHANGES_CHANNEL = 'mst-persistent-store:storage';
 
-const setItem = (key: string, value: unknown) => localforage.setItem(key, value);
+export const createDefaultStorage = (codec: Codec = jsonCodec): StorageOptions => {
+  const listeners = new Map<string, Set<() => void>>();
+  // localforage does not tell about the changes of the other tabs, so they are sent over
+  // a channel. It is opened on first use, so nothing is kept open during server side rendering.
+  let channel: BroadcastChannel | null = null;
 
-const removeItem = (key: string) => localforage.removeItem(key);
+  const getChannel = () => {
+    if (!channel && typeof BroadcastChannel !== 'undefined') {
+      channel = new BroadcastChannel(CHANGES_CHANNEL);
+      channel.onmessage = ({ data }: MessageEvent) => {
+        if (isObjectLike(data) && typeof data.key === 'string') {
+          listeners.get(data.key)?.forEach((listener) => listener());
+        }
+      };
+    }
+    return channel;
+  };
 
-const defaultStorage = {
-  getItem,
-  setItem,
-  removeItem,
+  const getItem = async (key: string) => {
+    const item = await localforage.getItem(key);
+    // Values written before the codec was introduced are stored as structured clones.
+    return typeof item === 'string' ? decodeOrThrow(codec.decode, item, key) : item;
+  };
+
+  const setItem = async (key: string, value: unknown) => {
+    await localforage.setItem(key, codec.encode(value));
+    getChannel()?.postMessage({ key });
+  };
+
+  const removeItem = async (key: string) => {
+    await localforage.removeItem(key);
+    getChannel()?.postMessage({ key });
+  };
+
+  const subscribe = (key: string, listener: () => void) => {
+    getChannel();
+    const keyListeners = listeners.get(key) ?? new Set();
+    keyListeners.add(listener);
+    listeners.set(key, keyListeners);
+
+    return () => {
+      keyListeners.delete(listener);
+      if (keyListeners.size === 0) {
+        listeners.delete(key);
+      }
+    };
+  };
+
+  return {
+    getItem,
+    setItem,
+    removeItem,
+    subscribe,
+  };
 };
 
+const defaultStorage = createDefaultStorage();
+
 export default defaultStorage;
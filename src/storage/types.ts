@@ -0,0 +1,103 @@
+import { Codec } from '../codec/types';
+
+export interface StorageOptions {
+  setItem: (key: string, value: unknown) => Promise<void> | void;
+  getItem: (key: string) => Promise<unknown | null> | unknown | null;
+  removeItem: (key: string) => Promise<void> | void;
+  /**
+   * Calls the listener when the value of the key is changed outside of this storage,
+   * ie. by another tab, process or a dev tool. Returns a function to unsubscribe.
+   */
+  subscribe?: (key: string, listener: () => void) => () => void;
+}
+
+export interface EncryptionKey {
+  /** Id of the key, stored with the ciphertext to find the key to decrypt it with. */
+  id: string;
+  /** An AES-GCM key. */
+  key: CryptoKey;
+}
+
+export interface KeyProvider {
+  /** Returns the key new values are encrypted with. Return a new key to rotate the key. */
+  getCurrentKey: () => Promise<EncryptionKey> | EncryptionKey;
+  /**
+   * Returns the key with the id, to decrypt values encrypted with it. Rotated keys must
+   * still be returned until the values encrypted with them are written again.
+   */
+  getKey: (id: string) => Promise<CryptoKey | null> | CryptoKey | null;
+}
+
+export interface EncryptedStorageOptions {
+  /**
+   * The WebCrypto implementation. default is `globalThis.crypto`. Pass a polyfill,
+   * ie. `react-native-quick-crypto`, where it is not available.
+   */
+  crypto: Pick<Crypto, 'subtle' | 'getRandomValues'>;
+  /** Serializes the values before they are encrypted. default is `jsonCodec`. */
+  codec: Codec;
+  /**
+   * Whether values that are not encrypted are read as is, to migrate the data written
+   * before the storage was wrapped. They are encrypted on the next write. Otherwise they
+   * are rejected, as they are not authenticated. default is false.
+   */
+  allowPlaintext: boolean;
+}
+
+/**
+ * The value written to the inner storage of an encrypted storage.
+ */
+export interface EncryptedValue {
+  /** Id of the key the value is encrypted with. */
+  kid: string;
+  /** Base64 encoded initialization vector. */
+  iv: string;
+  /** Base64 encoded ciphertext. */
+  ct: string;
+}
+
+/**
+ * A string compression algorithm. The name is stored with the compressed value.
+ */
+export interface Compressor {
+  name: string;
+  compress: (text: string) => string;
+  decompress: (text: string) => string;
+}
+
+export interface CompressedStorageOptions {
+  /**
+   * The compression algorithm. default is `'lzw'`, a pure JS LZW implementation that
+   * works everywhere.
+   */
+  algorithm: 'lzw' | Compressor;
+  /**
+   * The length of the serialized value, in characters, from which on it is compressed.
+   * Smaller values are stored as is. default is 8192.
+   */
+  threshold: number;
+  /** Serializes the values before they are compressed. default is `jsonCodec`. */
+  codec: Codec;
+}
+
+export interface ChunkedStorageOptions {
+  /**
+   * The maximum length of a chunk, in characters. Keep it below the per-key limit of the
+   * storage. default is 524288 (512K), which is below the 2MB limit of AsyncStorage on Android.
+   */
+  chunkSize: number;
+  /** Serializes the values before they are split. default is `jsonCodec`. */
+  codec: Codec;
+}
+
+/**
+ * The value written to the key of a chunked value, pointing to its chunks.
+ */
+export interface ChunkManifest {
+  /** Id of the write the chunks belong to. Chunks are stored under `<key>:chunk:<id>:<index>`. */
+  id: string;
+  /** The number of chunks. */
+  count: number;
+  /** The length of the serialized value, to verify the reassembled value. */
+  length: number;
+}
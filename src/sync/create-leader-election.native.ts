@@ -0,0 +1,10 @@
+import { LeaderElection } from './types';
+
+/** There is a single instance of the app on react-native, so it is always the leader. */
+const createLeaderElection = (): LeaderElection => ({
+  isLeader: () => true,
+  subscribe: () => () => undefined,
+  close: () => undefined,
+});
+
+export default createLeaderElection;
@@ -0,0 +1,158 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import createLeaderElection from './create-leader-election';
+import { LeaderElection } from './types';
+
+/** Grants the locks in the order they are requested, like the Web Locks API. */
+const createLockManager = () => {
+  const queues = new Map<string, Promise<unknown>>();
+
+  return {
+    request: (name: string, { signal }: { signal: AbortSignal }, callback: () => Promise<void>) => {
+      const held = (queues.get(name) ?? Promise.resolve()).then(() => {
+        if (signal.aborted) {
+          throw new Error('AbortError');
+        }
+        return callback();
+      });
+      queues.set(
+        name,
+        held.catch(() => undefined)
+      );
+      return held;
+    },
+  } as unknown as LockManager;
+};
+
+describe('createLeaderElection', () => {
+  const elections: LeaderElection[] = [];
+  const elect = () => {
+    const election = createLeaderElection('leader', {
+      heartbeatInterval: 1000,
+      heartbeatTimeout: 3000,
+    });
+    elections.push(election);
+    return election;
+  };
+
+  afterEach(() => {
+    elections.splice(0).forEach((election) => election.close());
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  describe('with the Web Locks API', () => {
+    beforeEach(() => {
+      vi.stubGlobal('navigator', { locks: createLockManager() });
+    });
+
+    it('should make the first tab the leader, and hand over when it is closed', async () => {
+      const first = elect();
+      const second = elect();
+      const listener = vi.fn();
+      second.subscribe(listener);
+
+      await vi.waitFor(() => expect(first.isLeader()).toBe(true));
+      expect(second.isLeader()).toBe(false);
+
+      first.close();
+
+      await vi.waitFor(() => expect(second.isLeader()).toBe(true));
+      expect(first.isLeader()).toBe(false);
+      expect(listener).toHaveBeenCalledWith(true);
+    });
+
+    it('should stop waiting for the lock when closed', async () => {
+      const first = elect();
+      const second = elect();
+      const third = elect();
+
+      await vi.waitFor(() => expect(first.isLeader()).toBe(true));
+      second.close();
+      first.close();
+
+      await vi.waitFor(() => expect(third.isLeader()).toBe(true));
+      expect(second.isLeader()).toBe(false);
+    });
+  });
+
+  describe('with the heartbeat fallback', () => {
+    let items: Map<string, string>;
+    let window: EventTarget;
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      items = new Map();
+      window = new EventTarget();
+      vi.stubGlobal('navigator', undefined);
+      vi.stubGlobal('window', window);
+      vi.stubGlobal('localStorage', {
+        getItem: (key: string) => items.get(key) ?? null,
+        setItem: (key: string, value: string) => void items.set(key, value),
+        removeItem: (key: string) => void items.delete(key),
+      });
+    });
+
+    it('should make the tab that claimed the leadership first the leader', () => {
+      const first = elect();
+      const second = elect();
+
+      expect(first.isLeader()).toBe(false);
+
+      vi.advanceTimersByTime(1000);
+
+      expect(first.isLeader()).toBe(true);
+      expect(second.isLeader()).toBe(false);
+
+      vi.advanceTimersByTime(10000);
+
+      expect(first.isLeader()).toBe(true);
+      expect(second.isLeader()).toBe(false);
+    });
+
+    it('should hand over the leadership when the leader is closed', () => {
+      const first = elect();
+      const second = elect();
+      const listener = vi.fn();
+      second.subscribe(listener);
+      vi.advanceTimersByTime(1000);
+
+      first.close();
+      vi.advanceTimersByTime(2000);
+
+      expect(second.isLeader()).toBe(true);
+      expect(listener).toHaveBeenCalledWith(true);
+    });
+
+    it('should take over when the heartbeat of the leader times out', () => {
+      const first = elect();
+      vi.advanceTimersByTime(1000);
+      const heartbeat = items.get('leader')!;
+      first.close();
+      // The leader stopped beating without resigning, ie. the tab crashed.
+      items.set('leader', heartbeat);
+
+      const second = elect();
+      vi.advanceTimersByTime(2000);
+      expect(second.isLeader()).toBe(false);
+
+      vi.advanceTimersByTime(3000);
+      expect(second.isLeader()).toBe(true);
+    });
+
+    it('should resign when the page is unloaded', () => {
+      const first = elect();
+      vi.advanceTimersByTime(1000);
+
+      window.dispatchEvent(new Event('pagehide'));
+
+      expect(first.isLeader()).toBe(false);
+      expect(items.has('leader')).toBe(false);
+    });
+  });
+
+  it('should always be the leader without locks and localStorage', () => {
+    vi.stubGlobal('navigator', undefined);
+
+    expect(elect().isLeader()).toBe(true);
+  });
+});
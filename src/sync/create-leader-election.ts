@@ -0,0 +1,163 @@
+import jsonCodec from '../codec/json-codec';
+import isObjectLike from '../utils/is-object-like';
+import { LeaderElection, LeaderElectionOptions } from './types';
+
+interface Heartbeat {
+  id: string;
+  at: number;
+}
+
+const defaultOptions: LeaderElectionOptions = {
+  heartbeatInterval: 1000,
+  heartbeatTimeout: 5000,
+};
+
+const isHeartbeat = (value: unknown): value is Heartbeat =>
+  isObjectLike(value) && typeof value.id === 'string' && typeof value.at === 'number';
+
+/** Keeps the leadership state and notifies the listeners when it changes. */
+const createLeadership = () => {
+  let leader = false;
+  const listeners = new Set<(isLeader: boolean) => void>();
+
+  return {
+    isLeader: () => leader,
+    set(isLeader: boolean) {
+      if (leader !== isLeader) {
+        leader = isLeader;
+        listeners.forEach((listener) => listener(isLeader));
+      }
+    },
+    subscribe(listener: (isLeader: boolean) => void) {
+      listeners.add(listener);
+      return () => void listeners.delete(listener);
+    },
+    clear() {
+      leader = false;
+      listeners.clear();
+    },
+  };
+};
+
+/**
+ * Holds a Web Lock while this tab is the leader. The browser releases it when the tab is
+ * closed, and grants it to the next waiting tab.
+ */
+const createLockElection = (name: string, locks: LockManager): LeaderElection => {
+  const leadership = createLeadership();
+  const controller = new AbortController();
+  let release: (() => void) | null = null;
+
+  locks
+    .request(name, { signal: controller.signal }, () => {
+      leadership.set(true);
+      return new Promise<void>((resolve) => {
+        release = resolve;
+      });
+    })
+    // Rejected when closed while waiting for the lock.
+    .catch(() => undefined);
+
+  return {
+    isLeader: leadership.isLeader,
+    subscribe: leadership.subscribe,
+    close() {
+      leadership.clear();
+      controller.abort();
+      release?.();
+    },
+  };
+};
+
+/**
+ * Keeps a heartbeat of the leader in localStorage. A tab claims the leadership when there
+ * is no heartbeat or it timed out, and becomes the leader when its claim is still there
+ * on its next heartbeat, so only one of the tabs claiming it at the same time wins.
+ */
+const createHeartbeatElection = (
+  name: string,
+  { heartbeatInterval, heartbeatTimeout }: LeaderElectionOptions
+): LeaderElection => {
+  const leadership = createLeadership();
+  const id = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+  const read = () => {
+    try {
+      const heartbeat = jsonCodec.decode(localStorage.getItem(name) ?? 'null');
+      return isHeartbeat(heartbeat) ? heartbeat : null;
+    } catch {
+      return null;
+    }
+  };
+
+  const beat = () => {
+    const heartbeat = read();
+    const now = Date.now();
+
+    if (heartbeat && heartbeat.id !== id && now - heartbeat.at < heartbeatTimeout) {
+      leadership.set(false);
+      return;
+    }
+
+    try {
+      localStorage.setItem(name, jsonCodec.encode({ id, at: now }));
+      leadership.set(heartbeat?.id === id);
+    } catch {
+      // localStorage is full or disabled, the tab can not claim the leadership.
+      leadership.set(false);
+    }
+  };
+
+  /** Removes the heartbeat of this tab, so the other tabs do not wait for it to time out. */
+  const resign = () => {
+    if (read()?.id === id) {
+      localStorage.removeItem(name);
+    }
+    leadership.set(false);
+  };
+
+  beat();
+  const interval = setInterval(beat, heartbeatInterval);
+  window.addEventListener('pagehide', resign);
+
+  return {
+    isLeader: leadership.isLeader,
+    subscribe: leadership.subscribe,
+    close() {
+      clearInterval(interval);
+      window.removeEventListener('pagehide', resign);
+      leadership.clear();
+      resign();
+    },
+  };
+};
+
+/**
+ * Elects one of the tabs of the same origin using the same name as the leader. Uses the
+ * Web Locks API when available, a heartbeat in localStorage otherwise. When the leader is
+ * closed, another tab takes over. Without either, ie. during server side rendering, the
+ * tab is always the leader.
+ */
+const createLeaderElection = (
+  name: string,
+  options?: Partial<LeaderElectionOptions>
+): LeaderElection => {
+  if (typeof navigator !== 'undefined' && navigator.locks) {
+    return createLockElection(name, navigator.locks);
+  }
+
+  if (typeof window !== 'undefined' && typeof localStorage !== 'undefined') {
+    return createHeartbeatElection(
+      name,
+      options ? { ...defaultOptions, ...options } : defaultOptions
+    );
+  }
+
+  return {
+    isLeader: () => true,
+    subscribe: () => () => undefined,
+    close: () => undefined,
+  };
+};
+
+export default createLeaderElection;
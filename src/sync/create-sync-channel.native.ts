@@ -0,0 +1,10 @@
+import { SyncChannel } from './types';
+
+/** There is a single instance of the app on react-native, so there is nothing to sync with. */
+const createSyncChannel = (): SyncChannel => ({
+  post: () => undefined,
+  subscribe: () => () => undefined,
+  close: () => undefined,
+});
+
+export default createSyncChannel;
@@ -0,0 +1,134 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import createSyncChannel from './create-sync-channel';
+import { SyncChannel, SyncMessage } from './types';
+
+const message: SyncMessage = {
+  type: 'changes',
+  version: 1,
+  snapshot: { todos: ['First'] },
+  patches: [{ op: 'add', path: '/todos/0', value: 'First' }],
+};
+
+describe('createSyncChannel', () => {
+  const channels: SyncChannel[] = [];
+  const open = (name = 'store') => {
+    const channel = createSyncChannel(name);
+    channels.push(channel);
+    return channel;
+  };
+
+  afterEach(() => {
+    channels.splice(0).forEach((channel) => channel.close());
+    vi.unstubAllGlobals();
+  });
+
+  describe('with BroadcastChannel', () => {
+    const received = (channel: SyncChannel) =>
+      new Promise<SyncMessage>((resolve) => channel.subscribe(resolve));
+
+    it('should deliver the messages to the other channels with the same name', async () => {
+      const sender = open();
+      const receiver = open();
+      const listener = vi.fn();
+      sender.subscribe(listener);
+
+      const result = received(receiver);
+      sender.post(message);
+
+      expect(await result).toStrictEqual(message);
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('should ignore the messages of other names and malformed messages', async () => {
+      const sender = open();
+      const other = open('other');
+      const receiver = open();
+      const listener = vi.fn();
+      other.subscribe(listener);
+      receiver.subscribe(listener);
+
+      const result = received(receiver);
+      const raw = new BroadcastChannel('store');
+      raw.postMessage({ type: 'patches', version: 1, patches: 'invalid' });
+      raw.close();
+      sender.post(message);
+      await result;
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith(message);
+    });
+  });
+
+  describe('with the storage event fallback', () => {
+    let items: Map<string, string>;
+    let window: EventTarget;
+
+    beforeEach(() => {
+      items = new Map();
+      window = new EventTarget();
+      vi.stubGlobal('BroadcastChannel', undefined);
+      vi.stubGlobal('window', window);
+      vi.stubGlobal('localStorage', {
+        setItem: (key: string, value: string) => void items.set(key, value),
+        removeItem: (key: string) => void items.delete(key),
+      });
+    });
+
+    const dispatch = (key: string, newValue: string | null) =>
+      window.dispatchEvent(Object.assign(new Event('storage'), { key, newValue }));
+
+    it('should write the message to localStorage without leaving it there', () => {
+      const setItem = vi.spyOn(localStorage, 'setItem');
+
+      open().post(message);
+
+      expect(setItem).toHaveBeenCalledWith('store', expect.stringContaining('First'));
+      expect(items.size).toBe(0);
+    });
+
+    it('should deliver the messages of the storage events', () => {
+      const setItem = vi.spyOn(localStorage, 'setItem');
+      const listener = vi.fn();
+      open().subscribe(listener);
+      open().post(message);
+
+      dispatch('other', setItem.mock.calls[0][1]);
+      dispatch('store', null);
+      dispatch('store', 'invalid');
+      dispatch('store', setItem.mock.calls[0][1]);
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith(message);
+    });
+
+    it('should not throw when localStorage is full', () => {
+      vi.spyOn(localStorage, 'setItem').mockImplementation(() => {
+        throw new Error('QuotaExceededError');
+      });
+
+      expect(() => open().post(message)).not.toThrow();
+    });
+
+    it('should stop listening when closed', () => {
+      const setItem = vi.spyOn(localStorage, 'setItem');
+      const listener = vi.fn();
+      const channel = createSyncChannel('store');
+      channel.subscribe(listener);
+      open().post(message);
+
+      channel.close();
+      dispatch('store', setItem.mock.calls[0][1]);
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+
+  it('should do nothing without BroadcastChannel and localStorage', () => {
+    vi.stubGlobal('BroadcastChannel', undefined);
+
+    const channel = open();
+
+    expect(() => channel.post(message)).not.toThrow();
+    expect(channel.subscribe(vi.fn())).toBeTypeOf('function');
+  });
+});
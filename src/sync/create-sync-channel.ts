@@ -0,0 +1,99 @@
+import jsonCodec from '../codec/json-codec';
+import isObjectLike from '../utils/is-object-like';
+import { SyncChannel, SyncMessage } from './types';
+
+const isSyncMessage = (value: unknown): value is SyncMessage =>
+  isObjectLike(value) &&
+  typeof value.version === 'number' &&
+  Array.isArray(value.patches) &&
+  (value.type === 'patches' || (value.type === 'changes' && isObjectLike(value.snapshot)));
+
+const createNoopChannel = (): SyncChannel => ({
+  post: () => undefined,
+  subscribe: () => () => undefined,
+  close: () => undefined,
+});
+
+/**
+ * Uses the `storage` event of localStorage to reach the other tabs, where BroadcastChannel
+ * is not available. The message is removed right after it is written, the event is fired
+ * for the other tabs anyway, so the snapshot is not left in localStorage.
+ */
+const createStorageEventChannel = (name: string): SyncChannel => {
+  const listeners = new Set<(message: SyncMessage) => void>();
+
+  const onStorage = (event: StorageEvent) => {
+    if (event.key !== name || !event.newValue) {
+      return;
+    }
+    try {
+      const { message } = jsonCodec.decode(event.newValue) as { message: unknown };
+      if (isSyncMessage(message)) {
+        listeners.forEach((listener) => listener(message));
+      }
+    } catch {
+      // Not written by this channel.
+    }
+  };
+
+  window.addEventListener('storage', onStorage);
+
+  return {
+    post(message) {
+      try {
+        // The nonce makes every message a change, so the event fires for repeated messages.
+        localStorage.setItem(name, jsonCodec.encode({ message, nonce: Math.random() }));
+        localStorage.removeItem(name);
+      } catch {
+        // The quota is exceeded or localStorage is disabled, the other tabs can not be reached.
+      }
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => void listeners.delete(listener);
+    },
+    close() {
+      listeners.clear();
+      window.removeEventListener('storage', onStorage);
+    },
+  };
+};
+
+/**
+ * Creates a channel to the other tabs of the same origin using the same name. Uses
+ * BroadcastChannel when available, the `storage` event of localStorage otherwise. The
+ * messages are never delivered to the tab that sent them.
+ */
+const createSyncChannel = (name: string): SyncChannel => {
+  if (typeof BroadcastChannel !== 'undefined') {
+    const channel = new BroadcastChannel(name);
+    const listeners = new Set<(message: SyncMessage) => void>();
+
+    channel.onmessage = (event: MessageEvent) => {
+      if (isSyncMessage(event.data)) {
+        listeners.forEach((listener) => listener(event.data));
+      }
+    };
+
+    return {
+      post: (message) => channel.postMessage(message),
+      subscribe(listener) {
+        listeners.add(listener);
+        return () => void listeners.delete(listener);
+      },
+      close() {
+        listeners.clear();
+        channel.close();
+      },
+    };
+  }
+
+  if (typeof window !== 'undefined' && typeof localStorage !== 'undefined') {
+    return createStorageEventChannel(name);
+  }
+
+  // Nothing to sync with during server side rendering.
+  return createNoopChannel();
+};
+
+export default createSyncChannel;
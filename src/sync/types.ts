@@ -0,0 +1,55 @@
+import { IJsonPatch } from 'mobx-state-tree';
+import { PersistedSnapshot } from '../migration/types';
+
+/**
+ * The messages between the tabs. `changes` are sent after a write, a `patches` message is
+ * sent by a follower for the leader to apply and write, when using leader election.
+ */
+export type SyncMessage =
+  | {
+      type: 'changes';
+      /** The schema version of the store that wrote the changes. */
+      version: number;
+      /** The persisted part of the snapshot that was written, before the transforms. */
+      snapshot: PersistedSnapshot;
+      /** The patches of the tab since its previous changes, as they apply to the snapshot. */
+      patches: IJsonPatch[];
+    }
+  | {
+      type: 'patches';
+      /** The schema version of the store that sent the patches. */
+      version: number;
+      /** The patches of the follower, as they apply to the persisted snapshot. */
+      patches: IJsonPatch[];
+    };
+
+export interface SyncChannel {
+  /** Sends the message to the other tabs. */
+  post(message: SyncMessage): void;
+  /** Calls the listener with the messages of the other tabs. Returns a function to unsubscribe. */
+  subscribe(listener: (message: SyncMessage) => void): () => void;
+  /** Stops sending and receiving messages. */
+  close(): void;
+}
+
+export interface LeaderElectionOptions {
+  /**
+   * How often the leader renews its heartbeat, where the Web Locks API is not available.
+   * default is 1000 (ms).
+   */
+  heartbeatInterval: number;
+  /**
+   * How long after its last heartbeat the leader is considered gone, where the Web Locks
+   * API is not available. default is 5000 (ms).
+   */
+  heartbeatTimeout: number;
+}
+
+export interface LeaderElection {
+  /** Whether this tab is the leader. */
+  isLeader(): boolean;
+  /** Calls the listener when this tab becomes or stops being the leader. Returns a function to unsubscribe. */
+  subscribe(listener: (isLeader: boolean) => void): () => void;
+  /** Gives up the leadership, or stops waiting for it. */
+  close(): void;
+}
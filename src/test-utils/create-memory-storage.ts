@@ -0,0 +1,17 @@
+import { StorageOptions } from '../storage/types';
+
+/**
+ * Creates a storage keeping the items in memory, cloned like a real storage would.
+ * The items are exposed to check or tamper with what was written.
+ */
+const createMemoryStorage = () => {
+  const items = new Map<string, unknown>();
+  const storage: StorageOptions = {
+    getItem: (key) => (items.has(key) ? structuredClone(items.get(key)) : null),
+    setItem: (key, value) => void items.set(key, structuredClone(value)),
+    removeItem: (key) => void items.delete(key),
+  };
+  return { items, storage };
+};
+
+export default createMemoryStorage;
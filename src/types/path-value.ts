@@ -0,0 +1,20 @@
+type ChildValue<T, K extends string> = T extends readonly (infer E)[]
+  ? E
+  : K extends '*' | `{${string}}`
+    ? T extends Record<string, infer V>
+      ? V
+      : unknown
+    : K extends keyof T
+      ? T[K]
+      : unknown;
+
+/**
+ * The type of the value at a JSON pointer (pattern) in `T`. `**` segments resolve to `unknown`.
+ */
+export type PathValue<T, P extends string> = P extends ''
+  ? T
+  : P extends `/${infer K}/${infer Rest}`
+    ? PathValue<ChildValue<NonNullable<T>, K>, `/${Rest}`>
+    : P extends `/${infer K}`
+      ? ChildValue<NonNullable<T>, K>
+      : unknown;
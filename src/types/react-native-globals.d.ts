@@ -1 +1,13 @@
 declare const __DEV__: boolean;
+
+// react-native is not a dependency, only the parts used by the native modules are declared.
+declare module 'react-native' {
+  export type AppStateStatus = 'active' | 'background' | 'inactive' | 'unknown' | 'extension';
+
+  export const AppState: {
+    addEventListener(
+      type: 'change',
+      listener: (state: AppStateStatus) => void
+    ): { remove: () => void };
+  };
+}
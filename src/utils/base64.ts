@@ -0,0 +1,26 @@
+/**
+ * Encodes bytes as a base64 string.
+ */
+export const toBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+
+  return btoa(binary);
+};
+
+/**
+ * Decodes a base64 string to bytes.
+ */
+export const fromBase64 = (value: string) => {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+
+  return bytes;
+};
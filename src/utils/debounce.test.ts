@@ -0,0 +1,69 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { debounce } from './debounce';
+
+describe('debounce', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should call the function once after the wait with the latest arguments', () => {
+    const func = vi.fn();
+    const debounced = debounce(func, 100);
+
+    debounced(1);
+    vi.advanceTimersByTime(50);
+    debounced(2);
+    vi.advanceTimersByTime(99);
+    expect(func).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(1);
+    expect(func).toHaveBeenCalledTimes(1);
+    expect(func).toHaveBeenCalledWith(2);
+  });
+
+  it('should drop the pending call on cancel', () => {
+    const func = vi.fn();
+    const debounced = debounce(func, 100);
+
+    debounced(1);
+    debounced.cancel();
+    vi.advanceTimersByTime(100);
+
+    expect(func).not.toHaveBeenCalled();
+  });
+
+  it('should call the function immediately with the immediate option', () => {
+    const func = vi.fn();
+    const debounced = debounce(func, 100, { isImmediate: true });
+
+    debounced(1);
+    debounced(2);
+    expect(func).toHaveBeenCalledTimes(1);
+    expect(func).toHaveBeenCalledWith(1);
+
+    vi.advanceTimersByTime(100);
+    debounced(3);
+    expect(func).toHaveBeenCalledTimes(2);
+  });
+
+  it('should call the function at least every maxWait while it keeps being debounced', () => {
+    const func = vi.fn();
+    const debounced = debounce(func, 100, { isImmediate: false, maxWait: 250 });
+
+    for (let i = 0; i < 5; i++) {
+      debounced(i);
+      vi.advanceTimersByTime(60);
+    }
+    expect(func).toHaveBeenCalledTimes(1);
+    expect(func).toHaveBeenCalledWith(4);
+
+    debounced(5);
+    vi.advanceTimersByTime(100);
+    expect(func).toHaveBeenCalledTimes(2);
+    expect(func).toHaveBeenLastCalledWith(5);
+  });
+});
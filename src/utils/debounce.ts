@@ -5,6 +5,18 @@ export type Procedure = (...args: unknown[]) => void;
 
 export type Options = {
   isImmediate: boolean;
+  /**
+   * The maximum time the call can be delayed, even if it keeps being debounced.
+   */
+  maxWait?: number;
+};
+
+export type DebouncedFunction<F extends Procedure> = {
+  (this: ThisParameterType<F>, ...args: Parameters<F>): void;
+  /**
+   * Drops the pending call, if any.
+   */
+  cancel: () => void;
 };
 
 export function debounce<F extends Procedure>(
@@ -13,12 +25,14 @@ export function debounce<F extends Procedure>(
   options: Options = {
     isImmediate: false,
   },
-): (this: ThisParameterType<F>, ...args: Parameters<F>) => void {
+): DebouncedFunction<F> {
   let timeoutId: ReturnType<typeof setTimeout> | undefined;
+  let firstCallTime: number | undefined;
 
-  return function _returns(this: ThisParameterType<F>, ...args: Parameters<F>) {
+  const debounced = function _returns(this: ThisParameterType<F>, ...args: Parameters<F>) {
     const doLater = () => {
       timeoutId = undefined;
+      firstCallTime = undefined;
       if (!options.isImmediate) {
         func.apply(this, args);
       }
@@ -30,10 +44,29 @@ export function debounce<F extends Procedure>(
       clearTimeout(timeoutId);
     }
 
-    timeoutId = setTimeout(doLater, waitMilliseconds);
+    if (firstCallTime === undefined) {
+      firstCallTime = Date.now();
+    }
+
+    const wait =
+      options.maxWait === undefined
+        ? waitMilliseconds
+        : Math.min(waitMilliseconds, Math.max(0, firstCallTime + options.maxWait - Date.now()));
+
+    timeoutId = setTimeout(doLater, wait);
 
     if (shouldCallNow) {
       func.apply(this, args);
     }
+  } as DebouncedFunction<F>;
+
+  debounced.cancel = () => {
+    if (timeoutId !== undefined) {
+      clearTimeout(timeoutId);
+    }
+    timeoutId = undefined;
+    firstCallTime = undefined;
   };
+
+  return debounced;
 }
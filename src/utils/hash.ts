@@ -0,0 +1,13 @@
+/**
+ * A fast, non-cryptographic 32 bit FNV-1a hash of a string, in hex.
+ */
+export default function hash(value: string) {
+  let result = 0x811c9dc5;
+
+  for (let i = 0; i < value.length; i++) {
+    result ^= value.charCodeAt(i);
+    result = Math.imul(result, 0x01000193);
+  }
+
+  return (result >>> 0).toString(16).padStart(8, '0');
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { compress, decompress } from './lzw';
+
+describe('lzw', () => {
+  const roundTrip = (text: string) => decompress(compress(text));
+
+  it('should round trip an empty string', () => {
+    expect(roundTrip('')).toBe('');
+  });
+
+  it('should round trip repetitive text', () => {
+    const text = 'abababababababab'.repeat(100);
+
+    expect(roundTrip(text)).toBe(text);
+  });
+
+  it('should round trip unicode text, including surrogate pairs', () => {
+    const text = 'Ünïcödé テキスト 👋🏽 \u0000 ￿'.repeat(10);
+
+    expect(roundTrip(text)).toBe(text);
+  });
+
+  it('should round trip serialized snapshots', () => {
+    const snapshot = JSON.stringify({
+      entities: Array.from({ length: 500 }, (_, i) => ({ id: i, name: `Entity ${i}`, tags: [] })),
+    });
+
+    expect(roundTrip(snapshot)).toBe(snapshot);
+  });
+
+  it('should compress repetitive text', () => {
+    const text = JSON.stringify(Array.from({ length: 500 }, () => ({ name: 'John Doe' })));
+
+    expect(compress(text).length).toBeLessThan(text.length / 10);
+  });
+
+  it('should only output characters without surrogates or control characters', () => {
+    const compressed = compress('👋🏽 Hello World! '.repeat(50));
+
+    for (let i = 0; i < compressed.length; i++) {
+      const code = compressed.charCodeAt(i);
+      expect(code >= 32 && code < 0xd800).toBe(true);
+    }
+  });
+
+  it('should throw on invalid input', () => {
+    expect(() => decompress('')).toThrow('Invalid compressed data.');
+    expect(() => decompress('\u0001')).toThrow('Invalid compressed data.');
+  });
+});
@@ -0,0 +1,147 @@
+// Codes below the first dictionary code are markers for literal characters and the end.
+const LITERAL_8 = 0;
+const LITERAL_16 = 1;
+const END = 2;
+const FIRST_CODE = 3;
+
+// Every output character carries 15 bits, offset past the control characters, so the
+// output never contains surrogates and is safe to store as UTF-16 anywhere.
+const BITS_PER_CHAR = 15;
+const CHAR_OFFSET = 32;
+
+const bitLength = (value: number) => 32 - Math.clz32(value);
+
+const createBitWriter = () => {
+  const chars: string[] = [];
+  let buffer = 0;
+  let size = 0;
+
+  const write = (value: number, width: number) => {
+    for (let i = width - 1; i >= 0; i--) {
+      buffer = (buffer << 1) | ((value >>> i) & 1);
+      size++;
+      if (size === BITS_PER_CHAR) {
+        chars.push(String.fromCharCode(buffer + CHAR_OFFSET));
+        buffer = 0;
+        size = 0;
+      }
+    }
+  };
+
+  const finish = () => {
+    if (size > 0) {
+      write(0, BITS_PER_CHAR - size);
+    }
+    return chars.join('');
+  };
+
+  return { write, finish };
+};
+
+const createBitReader = (text: string) => {
+  let index = 0;
+  let buffer = 0;
+  let size = 0;
+
+  const read = (width: number) => {
+    let value = 0;
+    for (let i = 0; i < width; i++) {
+      if (size === 0) {
+        if (index >= text.length) {
+          throw new Error('Invalid compressed data. Unexpected end of input.');
+        }
+        buffer = text.charCodeAt(index++) - CHAR_OFFSET;
+        if (buffer < 0 || buffer >= 1 << BITS_PER_CHAR) {
+          throw new Error('Invalid compressed data. Unexpected character.');
+        }
+        size = BITS_PER_CHAR;
+      }
+      size--;
+      value = (value << 1) | ((buffer >>> size) & 1);
+    }
+    return value;
+  };
+
+  return { read };
+};
+
+/**
+ * Compresses a string with LZW. The output is a string of 15 bit characters, which is
+ * safe to store in any string based storage.
+ */
+export const compress = (text: string) => {
+  const writer = createBitWriter();
+  const dictionary = new Map<string, number>();
+  let nextCode = FIRST_CODE;
+  let previous: string | null = null;
+  let index = 0;
+
+  while (index < text.length) {
+    const char = text[index];
+    let match = char;
+
+    if (dictionary.has(char)) {
+      while (
+        index + match.length < text.length &&
+        dictionary.has(match + text[index + match.length])
+      ) {
+        match += text[index + match.length];
+      }
+      writer.write(dictionary.get(match)!, bitLength(nextCode));
+    } else {
+      const charCode = char.charCodeAt(0);
+      const wide = charCode > 0xff;
+      writer.write(wide ? LITERAL_16 : LITERAL_8, bitLength(nextCode));
+      writer.write(charCode, wide ? 16 : 8);
+      dictionary.set(char, nextCode++);
+    }
+
+    // The entry is only known after the match, so the decoder can always build it too.
+    if (previous !== null) {
+      dictionary.set(previous + match[0], nextCode++);
+    }
+
+    previous = match;
+    index += match.length;
+  }
+
+  writer.write(END, bitLength(nextCode));
+
+  return writer.finish();
+};
+
+/**
+ * Decompresses a string compressed with `compress`.
+ */
+export const decompress = (text: string) => {
+  const reader = createBitReader(text);
+  const dictionary: string[] = [];
+  const result: string[] = [];
+  let nextCode = FIRST_CODE;
+  let previous: string | null = null;
+
+  for (;;) {
+    const code = reader.read(bitLength(nextCode));
+    let match: string;
+
+    if (code === END) {
+      break;
+    } else if (code === LITERAL_8 || code === LITERAL_16) {
+      match = String.fromCharCode(reader.read(code === LITERAL_16 ? 16 : 8));
+      dictionary[nextCode++] = match;
+    } else if (code < nextCode) {
+      match = dictionary[code];
+    } else {
+      throw new Error('Invalid compressed data. Unknown code.');
+    }
+
+    if (previous !== null) {
+      dictionary[nextCode++] = previous + match[0];
+    }
+
+    result.push(match);
+    previous = match;
+  }
+
+  return result.join('');
+};
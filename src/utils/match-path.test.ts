@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import matchPath from './match-path';
+
+describe('matchPath', () => {
+  it('should match exact paths', () => {
+    expect(matchPath('/profile/name', '/profile/name')).toBe(true);
+    expect(matchPath('/profile/name', '/profile/age')).toBe(false);
+    expect(matchPath('/profile', '/profile/name')).toBe(false);
+    expect(matchPath('/profile/name', '/profile')).toBe(false);
+  });
+
+  it('should match the root path', () => {
+    expect(matchPath('', '')).toBe(true);
+    expect(matchPath('', '/profile')).toBe(false);
+  });
+
+  it('should match a single segment with `*`', () => {
+    expect(matchPath('/todos/*/done', '/todos/1/done')).toBe(true);
+    expect(matchPath('/todos/*/done', '/todos/abc/done')).toBe(true);
+    expect(matchPath('/todos/*/done', '/todos/done')).toBe(false);
+    expect(matchPath('/todos/*/done', '/todos/1/2/done')).toBe(false);
+    expect(matchPath('/todos/*', '/todos')).toBe(false);
+  });
+
+  it('should match zero or more segments with `**`', () => {
+    expect(matchPath('/**/token', '/token')).toBe(true);
+    expect(matchPath('/**/token', '/users/1/token')).toBe(true);
+    expect(matchPath('/users/**', '/users')).toBe(true);
+    expect(matchPath('/users/**', '/users/1/session/token')).toBe(true);
+    expect(matchPath('/users/**/token', '/users/1/session/token')).toBe(true);
+    expect(matchPath('/users/**/token', '/users/1/session/id')).toBe(false);
+    expect(matchPath('/**', '/anything/at/all')).toBe(true);
+  });
+
+  it('should match a single segment with a named placeholder', () => {
+    expect(matchPath('/users/{id}/sessionToken', '/users/42/sessionToken')).toBe(true);
+    expect(matchPath('/users/{id}/sessionToken', '/users/42/name')).toBe(false);
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * Splits a JSON pointer into its segments, without the leading empty segment.
+ * ie. `/todos/1/done` becomes `['todos', '1', 'done']`.
+ */
+export const splitPath = (path: string): string[] => (path === '' ? [] : path.split('/').slice(1));
+
+/**
+ * Whether the segment matches exactly one segment. Besides `*`, named placeholders
+ * such as `{id}` are supported for readability.
+ */
+export const isWildcardSegment = (segment: string) =>
+  segment === '*' || (segment.startsWith('{') && segment.endsWith('}'));
+
+const matchSegments = (pattern: string[], path: string[]): boolean => {
+  if (pattern.length === 0) {
+    return path.length === 0;
+  }
+
+  const [segment, ...restPattern] = pattern;
+
+  if (segment === '**') {
+    // `**` matches zero or more segments.
+    for (let i = 0; i <= path.length; i++) {
+      if (matchSegments(restPattern, path.slice(i))) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  if (path.length === 0) {
+    return false;
+  }
+
+  return (
+    (isWildcardSegment(segment) || segment === path[0]) && matchSegments(restPattern, path.slice(1))
+  );
+};
+
+/**
+ * Checks whether a JSON pointer matches a JSON pointer pattern. A `*` (or `{name}`) segment
+ * in the pattern matches exactly one segment, and a `**` segment matches zero or more segments.
+ *
+ * @example
+ *
+ * ```ts
+ * matchPath('/todos/*', '/todos/1'); // true
+ * matchPath('/todos/*', '/todos/1/done'); // false
+ * matchPath('/users/**', '/users/1/session/token'); // true
+ * ```
+ */
+export default function matchPath(pattern: string, path: string): boolean {
+  return matchSegments(splitPath(pattern), splitPath(path));
+}
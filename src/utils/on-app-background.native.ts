@@ -0,0 +1,17 @@
+import { AppState, AppStateStatus } from 'react-native';
+
+/**
+ * Calls the listener when the app goes to the background or becomes inactive, after
+ * which it might be killed by the OS. Returns a function to remove the listener.
+ */
+const onAppBackground = (listener: () => void) => {
+  const subscription = AppState.addEventListener('change', (state: AppStateStatus) => {
+    if (state === 'background' || state === 'inactive') {
+      listener();
+    }
+  });
+
+  return () => subscription.remove();
+};
+
+export default onAppBackground;
@@ -0,0 +1,57 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import onAppBackground from './on-app-background';
+
+describe('onAppBackground', () => {
+  let document: EventTarget & { visibilityState: string };
+  let window: EventTarget;
+
+  beforeEach(() => {
+    document = Object.assign(new EventTarget(), { visibilityState: 'visible' });
+    window = new EventTarget();
+    vi.stubGlobal('document', document);
+    vi.stubGlobal('window', window);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should call the listener when the page is hidden', () => {
+    const listener = vi.fn();
+    onAppBackground(listener);
+
+    document.dispatchEvent(new Event('visibilitychange'));
+    expect(listener).not.toHaveBeenCalled();
+
+    document.visibilityState = 'hidden';
+    document.dispatchEvent(new Event('visibilitychange'));
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('should call the listener when the page is unloaded', () => {
+    const listener = vi.fn();
+    onAppBackground(listener);
+
+    window.dispatchEvent(new Event('pagehide'));
+
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('should remove the listeners', () => {
+    const listener = vi.fn();
+    const remove = onAppBackground(listener);
+
+    remove();
+    document.visibilityState = 'hidden';
+    document.dispatchEvent(new Event('visibilitychange'));
+    window.dispatchEvent(new Event('pagehide'));
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('should do nothing without a document', () => {
+    vi.unstubAllGlobals();
+
+    expect(onAppBackground(vi.fn())).toBeTypeOf('function');
+  });
+});
@@ -0,0 +1,26 @@
+/**
+ * Calls the listener when the page is hidden or unloaded, which might be the last
+ * chance to run before the page is discarded. Returns a function to remove the listener.
+ */
+const onAppBackground = (listener: () => void) => {
+  // Nothing to listen to during server side rendering.
+  if (typeof document === 'undefined' || typeof window === 'undefined') {
+    return () => undefined;
+  }
+
+  const onVisibilityChange = () => {
+    if (document.visibilityState === 'hidden') {
+      listener();
+    }
+  };
+
+  document.addEventListener('visibilitychange', onVisibilityChange);
+  window.addEventListener('pagehide', listener);
+
+  return () => {
+    document.removeEventListener('visibilitychange', onVisibilityChange);
+    window.removeEventListener('pagehide', listener);
+  };
+};
+
+export default onAppBackground;
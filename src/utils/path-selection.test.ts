@@ -0,0 +1,179 @@
+import { describe, expect, it } from 'vitest';
+import {
+  getPointer,
+  hasPointer,
+  omitPaths,
+  overridePaths,
+  pickPaths,
+  selectionToPaths,
+  setPointer,
+} from './path-selection';
+
+describe('path selection', () => {
+  const source = {
+    ui: { theme: 'dark', sidebar: { open: true, width: 200 } },
+    auth: { token: 'secret', user: { name: 'John Doe' } },
+    'a/b': 1,
+    todos: [{ text: 'First', done: false }],
+  };
+
+  describe('selectionToPaths', () => {
+    it('should return a list of JSON pointers as is', () => {
+      expect(selectionToPaths(['/ui/theme', '/auth'])).toStrictEqual(['/ui/theme', '/auth']);
+    });
+
+    it('should convert a deep partial to JSON pointers', () => {
+      expect(
+        selectionToPaths({ ui: { theme: 'any', sidebar: {} }, auth: { user: { name: '' } } })
+      ).toStrictEqual(['/ui/theme', '/ui/sidebar', '/auth/user/name']);
+    });
+
+    it('should escape the keys', () => {
+      expect(selectionToPaths({ 'a/b': 1, 'c~d': 1 })).toStrictEqual(['/a~1b', '/c~0d']);
+    });
+  });
+
+  describe('pickPaths', () => {
+    it('should pick the given paths only', () => {
+      expect(pickPaths(source, ['/ui/sidebar/open', '/auth/user', '/a~1b'])).toStrictEqual({
+        ui: { sidebar: { open: true } },
+        auth: { user: { name: 'John Doe' } },
+        'a/b': 1,
+      });
+    });
+
+    it('should pick paths inside arrays', () => {
+      expect(pickPaths(source, ['/todos/0/text'])).toStrictEqual({ todos: [{ text: 'First' }] });
+    });
+
+    it('should ignore paths that do not exist', () => {
+      expect(pickPaths(source, ['/ui/unknown', '/unknown/path'])).toStrictEqual({});
+    });
+  });
+
+  describe('overridePaths', () => {
+    const base = {
+      ui: { theme: 'light', sidebar: { open: false, width: 100 } },
+      auth: { token: '', user: { name: '' } },
+      todos: [],
+    };
+
+    it('should override the given paths only', () => {
+      expect(overridePaths(base, source, ['/ui/theme', '/auth/user'])).toStrictEqual({
+        ui: { theme: 'dark', sidebar: { open: false, width: 100 } },
+        auth: { token: '', user: { name: 'John Doe' } },
+        todos: [],
+      });
+    });
+
+    it('should not mutate the base', () => {
+      const result = overridePaths(base, source, ['/ui/sidebar/open']);
+
+      expect(result.ui.sidebar.open).toBe(true);
+      expect(base.ui.sidebar.open).toBe(false);
+      expect(result.auth).toBe(base.auth);
+    });
+
+    it('should leave paths that do not exist in the source as is', () => {
+      expect(overridePaths(base, {}, ['/ui/theme'])).toStrictEqual(base);
+    });
+
+    it('should override items of arrays', () => {
+      expect(
+        overridePaths({ todos: [{ text: 'A' }, { text: 'B' }] }, { todos: [{ text: 'C' }] }, [
+          '/todos/0/text',
+        ])
+      ).toStrictEqual({ todos: [{ text: 'C' }, { text: 'B' }] });
+    });
+  });
+
+  describe('with patterns', () => {
+    const snapshot = {
+      todos: [
+        { text: 'First', isEditing: true },
+        { text: 'Second', isEditing: false },
+      ],
+      users: {
+        1: { name: 'John', sessionToken: 'a', session: { token: 'b' } },
+        2: { name: 'Jane', sessionToken: 'c', session: { token: 'd' } },
+      },
+    };
+
+    it('should omit the paths matching `*` in arrays and maps', () => {
+      expect(omitPaths(snapshot, ['/todos/*/isEditing', '/users/{id}/sessionToken'])).toStrictEqual(
+        {
+          todos: [{ text: 'First' }, { text: 'Second' }],
+          users: {
+            1: { name: 'John', session: { token: 'b' } },
+            2: { name: 'Jane', session: { token: 'd' } },
+          },
+        }
+      );
+    });
+
+    it('should omit the paths matching `**`', () => {
+      expect(omitPaths(snapshot, ['/**/token', '/**/sessionToken']).users).toStrictEqual({
+        1: { name: 'John', session: {} },
+        2: { name: 'Jane', session: {} },
+      });
+    });
+
+    it('should splice omitted array items', () => {
+      expect(omitPaths(snapshot, ['/todos/*']).todos).toStrictEqual([]);
+      expect(omitPaths(snapshot, ['/todos/0']).todos).toStrictEqual([snapshot.todos[1]]);
+    });
+
+    it('should not mutate the source when omitting', () => {
+      const source = structuredClone(snapshot);
+      omitPaths(source, ['/todos/*/isEditing', '/users/*']);
+
+      expect(source).toStrictEqual(snapshot);
+    });
+
+    it('should pick the paths matching the patterns', () => {
+      expect(pickPaths(snapshot, ['/todos/*/text', '/users/*/name'])).toStrictEqual({
+        todos: [{ text: 'First' }, { text: 'Second' }],
+        users: { 1: { name: 'John' }, 2: { name: 'Jane' } },
+      });
+    });
+
+    it('should pick a path and its nested matches once', () => {
+      expect(pickPaths(snapshot, ['/users/**'])).toStrictEqual({ users: snapshot.users });
+    });
+
+    it('should override the paths matching the patterns', () => {
+      const base = { todos: [{ text: '', isEditing: false }], users: {} };
+
+      expect(overridePaths(base, snapshot, ['/todos/*/text'])).toStrictEqual({
+        todos: [{ text: 'First', isEditing: false }, { text: 'Second' }],
+        users: {},
+      });
+    });
+  });
+
+  describe('pointers', () => {
+    it('should get the value at the pointer', () => {
+      expect(getPointer(source, '/auth/user/name')).toBe('John Doe');
+      expect(getPointer(source, '/a~1b')).toBe(1);
+      expect(getPointer(source, '/todos/0/done')).toBe(false);
+      expect(getPointer(source, '')).toBe(source);
+      expect(getPointer(source, '/auth/missing/name')).toBeUndefined();
+    });
+
+    it('should check whether the value at the pointer exists', () => {
+      expect(hasPointer(source, '/ui/theme')).toBe(true);
+      expect(hasPointer({ value: undefined }, '/value')).toBe(true);
+      expect(hasPointer(source, '/ui/missing')).toBe(false);
+      expect(hasPointer(source, '/ui/theme/length')).toBe(false);
+    });
+
+    it('should set the value at the pointer without mutating the target', () => {
+      const result = setPointer(source, '/ui/sidebar/open', false);
+
+      expect(getPointer(result, '/ui/sidebar')).toStrictEqual({ open: false, width: 200 });
+      expect(source.ui.sidebar.open).toBe(true);
+      expect(setPointer({}, '/a/b', 1)).toStrictEqual({ a: { b: 1 } });
+      expect(setPointer(source, '', 1)).toBe(1);
+    });
+  });
+});
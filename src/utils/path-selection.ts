@@ -0,0 +1,231 @@
+import { escapeJsonPath, unescapeJsonPath } from 'mobx-state-tree';
+import { PartialDeep } from '../types/partial-deep';
+import isObjectLike from './is-object-like';
+import { isWildcardSegment, splitPath } from './match-path';
+
+/**
+ * Selects parts of a snapshot, either with a deep partial of the snapshot where every
+ * key present is selected (nested objects select their keys only, unless empty), or
+ * with a list of JSON pointer patterns (see `matchPath`).
+ */
+export type PathSelection<T> = PartialDeep<T> | string[];
+
+/**
+ * Converts a path selection into the list of JSON pointer patterns it selects.
+ */
+export const selectionToPaths = <T>(selection: PathSelection<T>, prefix = ''): string[] => {
+  if (Array.isArray(selection)) {
+    return selection;
+  }
+
+  return Object.entries(selection as Record<string, unknown>).flatMap(([key, value]) => {
+    const path = `${prefix}/${escapeJsonPath(key)}`;
+    return isObjectLike(value) && Object.keys(value).length > 0
+      ? selectionToPaths(value, path)
+      : [path];
+  });
+};
+
+type Container = Record<string, unknown>;
+
+const isContainer = (value: unknown): value is Container =>
+  value !== null && typeof value === 'object';
+
+const getPath = (source: unknown, segments: string[]): unknown => {
+  let current = source;
+  for (const segment of segments) {
+    if (!isContainer(current)) {
+      return undefined;
+    }
+    current = current[segment];
+  }
+  return current;
+};
+
+/**
+ * Sets the value at the path without mutating the target, copying the objects and
+ * arrays along the path. Missing ones are created after their counterpart in the source.
+ */
+const setPath = (target: unknown, source: unknown, segments: string[], value: unknown): unknown => {
+  if (segments.length === 0) {
+    return value;
+  }
+  const [segment, ...rest] = segments;
+  const parent = (isContainer(target) ? target : Array.isArray(source) ? [] : {}) as Container;
+  const copy = (Array.isArray(parent) ? [...parent] : { ...parent }) as Container;
+  copy[segment] = setPath(parent[segment], getPath(source, [segment]), rest, value);
+  return copy;
+};
+
+/**
+ * Removes the value at the path without mutating the target, copying the objects and
+ * arrays along the path. Items of arrays are spliced out.
+ */
+const unsetPath = (target: unknown, segments: string[]): unknown => {
+  const [segment, ...rest] = segments;
+  if (!isContainer(target) || !(segment in target)) {
+    return target;
+  }
+  if (Array.isArray(target)) {
+    const copy = [...target];
+    if (rest.length === 0) {
+      copy.splice(Number(segment), 1);
+    } else {
+      copy[Number(segment)] = unsetPath(copy[Number(segment)], rest);
+    }
+    return copy;
+  }
+  const copy = { ...target };
+  if (rest.length === 0) {
+    delete copy[segment];
+  } else {
+    copy[segment] = unsetPath(copy[segment], rest);
+  }
+  return copy;
+};
+
+const expandSegments = (
+  value: unknown,
+  pattern: string[],
+  segments: string[],
+  paths: string[][]
+) => {
+  if (pattern.length === 0) {
+    paths.push(segments);
+    return;
+  }
+
+  const [segment, ...rest] = pattern;
+
+  if (segment === '**') {
+    // Zero segments, then one or more.
+    expandSegments(value, rest, segments, paths);
+    if (isContainer(value)) {
+      for (const key of Object.keys(value)) {
+        expandSegments(value[key], pattern, [...segments, key], paths);
+      }
+    }
+    return;
+  }
+
+  if (!isContainer(value)) {
+    return;
+  }
+
+  const keys = isWildcardSegment(segment) ? Object.keys(value) : [unescapeJsonPath(segment)];
+
+  for (const key of keys) {
+    if (key in value) {
+      expandSegments(value[key], rest, [...segments, key], paths);
+    }
+  }
+};
+
+const toPointer = (segments: string[]) =>
+  segments.map((segment) => `/${escapeJsonPath(segment)}`).join('');
+
+/**
+ * Expands JSON pointer patterns into the segments of the paths they match in the source.
+ * Paths nested in another matched path are left out, as they are covered by it.
+ */
+const expandPaths = (source: unknown, patterns: string[]): string[][] => {
+  const paths: string[][] = [];
+  for (const pattern of patterns) {
+    expandSegments(source, splitPath(pattern), [], paths);
+  }
+
+  const pointers = new Set(paths.map(toPointer));
+  const seen = new Set<string>();
+
+  return paths.filter((segments) => {
+    const pointer = toPointer(segments);
+    if (segments.length === 0 || seen.has(pointer)) {
+      return false;
+    }
+    seen.add(pointer);
+    return !segments.some((_, i) => i > 0 && pointers.has(toPointer(segments.slice(0, i))));
+  });
+};
+
+/**
+ * Returns the base with the paths matching the patterns in the source replaced by
+ * their value from the source. Everything else is left as is.
+ */
+export const overridePaths = <T extends Record<string, unknown>>(
+  base: T,
+  source: Record<string, unknown>,
+  patterns: string[]
+): T =>
+  expandPaths(source, patterns).reduce(
+    (result, segments) => setPath(result, source, segments, getPath(source, segments)) as T,
+    base
+  );
+
+/**
+ * Returns the source with the paths matching the patterns only.
+ */
+export const pickPaths = <T extends Record<string, unknown>>(source: T, patterns: string[]): T =>
+  overridePaths({} as T, source, patterns);
+
+/**
+ * Returns the source without the paths matching the patterns.
+ */
+export const omitPaths = <T extends Record<string, unknown>>(source: T, patterns: string[]): T =>
+  expandPaths(source, patterns)
+    // Remove the last matches first, so the indexes of the array items stay valid.
+    .reverse()
+    .reduce((result, segments) => unsetPath(result, segments) as T, source);
+
+/**
+ * Returns the source with the value of every path matching the patterns replaced by
+ * the result of the mapper. An empty pattern maps the source itself.
+ */
+export const mapPaths = <T>(
+  source: T,
+  patterns: string[],
+  mapper: (value: unknown, path: string) => unknown
+): T =>
+  patterns.reduce(
+    (result, pattern) =>
+      pattern === ''
+        ? (mapper(result, '') as T)
+        : expandPaths(result, [pattern]).reduce(
+            (mapped, segments) =>
+              setPath(
+                mapped,
+                mapped,
+                segments,
+                mapper(getPath(mapped, segments), toPointer(segments))
+              ) as T,
+            result
+          ),
+    source
+  );
+
+const pointerToSegments = (pointer: string) =>
+  splitPath(pointer).map((segment) => unescapeJsonPath(segment));
+
+/**
+ * Returns the value at the JSON pointer, or `undefined` if it does not exist.
+ */
+export const getPointer = (source: unknown, pointer: string) =>
+  getPath(source, pointerToSegments(pointer));
+
+/**
+ * Whether the value at the JSON pointer exists.
+ */
+export const hasPointer = (source: unknown, pointer: string) => {
+  const segments = pointerToSegments(pointer);
+  if (segments.length === 0) {
+    return source !== undefined;
+  }
+  const parent = getPath(source, segments.slice(0, -1));
+  return isContainer(parent) && segments[segments.length - 1] in parent;
+};
+
+/**
+ * Sets the value at the JSON pointer without mutating the target. Missing objects
+ * along the path are created.
+ */
+export const setPointer = (target: unknown, pointer: string, value: unknown) =>
+  setPath(target, target, pointerToSegments(pointer), value);
@@ -0,0 +1,2 @@
+// Keep in sync with the version in package.json.
+export const libVersion = '3.1.1';